@@ -0,0 +1,21 @@
+-- chat_pipeline_state predates the migrations folder; create it for fresh databases.
+CREATE TABLE IF NOT EXISTS chat_pipeline_state (
+  chat_id            TEXT PRIMARY KEY,
+  oldest_ts_seen_ms  BIGINT,
+  newest_ts_seen_ms  BIGINT,
+  seen_msg_count     INTEGER,
+  last_run_at        BIGINT,
+  last_run_type      TEXT,
+  stage1_done        BOOLEAN,
+  stage1_updated_at  TIMESTAMPTZ,
+  stage1_version     TEXT,
+  last_error         TEXT
+);
+
+-- Dirty-chat signal: set when new messages arrive (POST /ingest/messages), cleared once the
+-- chat's open loops have been refreshed past them.
+ALTER TABLE chat_pipeline_state ADD COLUMN IF NOT EXISTS dirty_since_ms BIGINT;
+ALTER TABLE chat_pipeline_state ADD COLUMN IF NOT EXISTS last_ingest_at BIGINT;
+ALTER TABLE chat_pipeline_state ADD COLUMN IF NOT EXISTS last_ingest_msg_ts BIGINT;
+
+CREATE INDEX IF NOT EXISTS idx_chat_pipeline_state_dirty ON chat_pipeline_state (dirty_since_ms) WHERE dirty_since_ms IS NOT NULL;
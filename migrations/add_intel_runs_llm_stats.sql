@@ -0,0 +1,2 @@
+-- Per-domain LLM schema validation stats for a run (calls, schemaFailures, repairAttempts, repaired, failed)
+ALTER TABLE intel_runs ADD COLUMN IF NOT EXISTS llm_stats JSONB;
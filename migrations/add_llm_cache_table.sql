@@ -0,0 +1,16 @@
+-- Content-addressed LLM responses (validated JSON text), keyed on model + prompt hash + prompt version
+CREATE TABLE IF NOT EXISTS llm_cache (
+  id             BIGSERIAL PRIMARY KEY,
+  domain         TEXT NOT NULL,
+  model          TEXT NOT NULL,
+  prompt_hash    TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  content        TEXT NOT NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at     TIMESTAMPTZ NOT NULL,
+  hit_count      INTEGER NOT NULL DEFAULT 0,
+  last_hit_at    TIMESTAMPTZ NULL,
+  UNIQUE (model, prompt_hash, prompt_version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_cache_expires ON llm_cache (expires_at);
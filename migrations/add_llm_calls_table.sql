@@ -0,0 +1,22 @@
+-- One row per LLM provider round-trip (repairs included) for token/latency/cost accounting
+CREATE TABLE IF NOT EXISTS llm_calls (
+  id                BIGSERIAL PRIMARY KEY,
+  ts                BIGINT NOT NULL,
+  domain            TEXT NOT NULL,
+  model             TEXT NOT NULL,
+  provider          TEXT NOT NULL,
+  run_id            BIGINT NULL,
+  chat_id           TEXT NULL,
+  attempt           INTEGER NOT NULL DEFAULT 0,
+  status            TEXT NOT NULL,
+  prompt_tokens     INTEGER NULL,
+  completion_tokens INTEGER NULL,
+  total_tokens      INTEGER NULL,
+  latency_ms        INTEGER NOT NULL,
+  cost_usd          NUMERIC(12, 6) NULL,
+  error             TEXT NULL,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_calls_ts ON llm_calls (ts DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_calls_run ON llm_calls (run_id);
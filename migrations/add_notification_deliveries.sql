@@ -0,0 +1,19 @@
+-- Reminder/notification ledger: one row per delivery attempt (also the dedupe + rate-limit source)
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id          BIGSERIAL PRIMARY KEY,
+  channel     TEXT NOT NULL,   -- webhook | smtp | whatsapp
+  trigger     TEXT NOT NULL,   -- LOOP_DUE_SOON | HIGH_URGENCY_STALE | MORNING_PLATE | TEST
+  dedupe_key  TEXT NOT NULL,
+  loop_id     TEXT,
+  chat_id     TEXT,
+  title       TEXT,
+  body        TEXT,
+  status      TEXT NOT NULL,   -- sent | failed | rate_limited
+  error       TEXT,
+  ref         TEXT,            -- provider reference (HTTP status, SMTP response, message id)
+  created_ts  BIGINT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_key ON notification_deliveries (dedupe_key, channel);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_channel_ts ON notification_deliveries (channel, created_ts DESC);
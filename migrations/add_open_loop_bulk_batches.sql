@@ -0,0 +1,10 @@
+-- Bulk loop actions (POST /open-loops/bulk) with the state each loop had before, so the batch can be undone
+CREATE TABLE IF NOT EXISTS open_loop_bulk_batches (
+  token       TEXT PRIMARY KEY,   -- undo token handed back to the client
+  action      TEXT NOT NULL,      -- complete | dismiss | snooze | lane | note
+  params      JSONB,              -- hours / lane / note
+  items       JSONB NOT NULL,     -- [{ loopId, chatId, status, snoozeUntil, laneOverride, overrideNote, via }]
+  created_ts  BIGINT NOT NULL,
+  expires_ts  BIGINT NOT NULL,
+  undone_ts   BIGINT
+);
@@ -0,0 +1,13 @@
+-- Cross-chat clusters: the same real-world task seen in several chats. One row per member loop;
+-- detached = the user unlinked it, so the linker leaves it alone.
+CREATE TABLE IF NOT EXISTS open_loop_cluster_members (
+  loop_id     TEXT NOT NULL,
+  chat_id     TEXT NOT NULL,
+  cluster_id  TEXT NOT NULL,
+  similarity  DOUBLE PRECISION,
+  detached    BOOLEAN NOT NULL DEFAULT false,
+  linked_ts   BIGINT NOT NULL,
+  PRIMARY KEY (loop_id, chat_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_loop_cluster_members_cluster ON open_loop_cluster_members (cluster_id);
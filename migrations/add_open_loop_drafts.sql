@@ -0,0 +1,18 @@
+-- Draft replies generated for open loops (POST /open-loops/:id/draft-reply)
+CREATE TABLE IF NOT EXISTS open_loop_drafts (
+  id              BIGSERIAL PRIMARY KEY,
+  loop_id         TEXT NOT NULL,
+  chat_id         TEXT NOT NULL,
+  run_id          BIGINT,
+  language        TEXT,
+  drafts          JSONB NOT NULL,   -- [{ index, text, tone, rationale? }]
+  context         JSONB,            -- message ids / style / relationship inputs used
+  prompt_version  TEXT,
+  model           TEXT,
+  created_ts      BIGINT NOT NULL,
+  used_index      INTEGER,
+  used_ts         BIGINT,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_loop_drafts_loop_ts ON open_loop_drafts (loop_id, created_ts DESC);
@@ -0,0 +1,16 @@
+-- Append-only lifecycle history for open_loops (EA pipeline + user actions)
+CREATE TABLE IF NOT EXISTS open_loop_events (
+  id          BIGSERIAL PRIMARY KEY,
+  loop_id     TEXT NOT NULL,
+  chat_id     TEXT NOT NULL,
+  event_type  TEXT NOT NULL,   -- created | updated | reprioritized | closed | reopened | snoozed | dismissed
+  actor       TEXT NOT NULL,   -- llm | closure | user | dependency
+  run_id      BIGINT,
+  ts          BIGINT NOT NULL,
+  changes     JSONB,           -- { field: { from, to } }
+  evidence    JSONB,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_loop_events_loop_ts ON open_loop_events (loop_id, ts);
+CREATE INDEX IF NOT EXISTS idx_open_loop_events_chat_ts ON open_loop_events (chat_id, ts DESC);
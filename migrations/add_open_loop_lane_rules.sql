@@ -0,0 +1,23 @@
+-- User-defined lane rules, evaluated in priority order when the plate is built (first match wins)
+CREATE TABLE IF NOT EXISTS open_loop_lane_rules (
+  id          BIGSERIAL PRIMARY KEY,
+  name        TEXT NOT NULL,
+  enabled     BOOLEAN NOT NULL DEFAULT true,
+  priority    INTEGER NOT NULL DEFAULT 100,   -- lower runs first
+  conditions  JSONB NOT NULL DEFAULT '{}'::jsonb,
+  lane        TEXT NOT NULL,                  -- now | later | backlog
+  created_ts  BIGINT NOT NULL,
+  updated_ts  BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_loop_lane_rules_priority ON open_loop_lane_rules (priority, id);
+
+-- Free-form chat tags (e.g. work, family) that lane rules can match on
+CREATE TABLE IF NOT EXISTS chat_tags (
+  chat_id     TEXT NOT NULL,
+  tag         TEXT NOT NULL,
+  created_ts  BIGINT NOT NULL,
+  PRIMARY KEY (chat_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_tags_tag ON chat_tags (tag);
@@ -0,0 +1,3 @@
+-- Closure pass results per EA run (loops closed by later messages, plus below-threshold candidates)
+ALTER TABLE open_loop_runs
+  ADD COLUMN IF NOT EXISTS closures JSONB;
@@ -0,0 +1,17 @@
+-- User actions on open loops (complete / dismiss / snooze) as labels for the EA sanitizer and prompt examples
+CREATE TABLE IF NOT EXISTS open_loop_user_actions (
+  id            BIGSERIAL PRIMARY KEY,
+  loop_id       TEXT NOT NULL,
+  chat_id       TEXT NOT NULL,
+  action        TEXT NOT NULL,   -- complete | dismiss | snooze
+  loop_type     TEXT,
+  intent_key    TEXT,            -- payload.intentKey, else taskGoal
+  task_goal     TEXT,
+  summary       TEXT,
+  confidence    DOUBLE PRECISION,
+  drop_context  JSONB,           -- evidenceInferred + what the chat's latest EA run dropped, by reason
+  ts            BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_loop_user_actions_chat_ts ON open_loop_user_actions (chat_id, ts DESC);
+CREATE INDEX IF NOT EXISTS idx_open_loop_user_actions_intent ON open_loop_user_actions (intent_key, action);
@@ -0,0 +1,6 @@
+-- Full-text search for GET /open-loops/search. The expression must match SEARCH_DOCUMENT in services/openLoopsQueryService.ts
+CREATE INDEX IF NOT EXISTS idx_open_loops_search ON open_loops USING GIN (
+  to_tsvector('simple', COALESCE(summary, '') || ' ' || COALESCE(payload->>'evidenceText', '') || ' ' || COALESCE(payload->>'evidenceSummary', ''))
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_loops_status_last_seen ON open_loops (status, last_seen_ts DESC);
@@ -0,0 +1,67 @@
+// Imports WhatsApp "Export chat" files (.txt or .zip) into chats/messages (same parser as
+// POST /intel/import/whatsapp-export).
+//
+//   npx tsx scripts/import_whatsapp_export.ts --owner "Sam Lee" [--chatId 4477...@c.us] [--chatName Alice]
+//     [--dateOrder DMY|MDY|YMD] [--tz Europe/London] [--dry-run] <export.txt|export.zip> [...more files]
+import fs from "fs";
+import path from "path";
+import { DateOrder, importWhatsAppExport, WhatsAppExportImportError } from "../src/services/whatsappExportImport.js";
+
+function parseArgs(argv: string[]) {
+  const flags: Record<string, string> = {};
+  const files: string[] = [];
+  let dryRun = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--dry-run") dryRun = true;
+    else if (arg.startsWith("--")) flags[arg.slice(2)] = argv[++i] ?? "";
+    else files.push(arg);
+  }
+  return { flags, files, dryRun };
+}
+
+async function main() {
+  const { flags, files, dryRun } = parseArgs(process.argv.slice(2));
+  if (!files.length) {
+    console.error("Usage: import_whatsapp_export.ts --owner <name>[,<name>] [--chatId id] [--chatName name] [--dateOrder DMY|MDY|YMD] [--tz zone] [--dry-run] <file>...");
+    process.exit(1);
+  }
+  if (files.length > 1 && flags.chatId) {
+    console.error("--chatId only makes sense with a single file");
+    process.exit(1);
+  }
+  const ownerNames = (flags.owner ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const dateOrder = flags.dateOrder ? (flags.dateOrder.toUpperCase() as DateOrder) : null;
+
+  let failed = 0;
+  for (const file of files) {
+    try {
+      const result = await importWhatsAppExport(fs.readFileSync(file), {
+        chatId: flags.chatId ?? null,
+        chatName: flags.chatName ?? null,
+        fileName: path.basename(file),
+        ownerNames,
+        dateOrder,
+        tz: flags.tz ?? null,
+        dryRun,
+      });
+      console.log(JSON.stringify({ file, ...result }));
+    } catch (err: any) {
+      failed++;
+      if (err instanceof WhatsAppExportImportError) {
+        console.error(JSON.stringify({ file, error: err.reasonCode, message: err.message, ...(err.details ?? {}) }));
+      } else {
+        console.error(`[import] ${file} failed`, err);
+      }
+    }
+  }
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,378 @@
+// Mock Service A for local development and tests: serves every endpoint whatsappClient.ts calls
+// (plus the /api/chats/:chatId/stats and /api/debug/state endpoints used by golden_path_check.sh)
+// from an in-memory corpus.
+//
+//   npx tsx scripts/mock_service_a.ts
+//   WHATSAPP_BASE=http://localhost:3000 WHATSAPP_API_KEY=test-key npm run dev
+//
+// Corpus: MOCK_SERVICE_A_CORPUS=fixtures/service_a/corpus.json, or generated from MOCK_SERVICE_A_SEED.
+// Simulation knobs (env at start, or POST /__mock/state at runtime): needsQr, state, startupInfillStatus,
+// infillDelayMs (status reports "running" until it elapses), errorRate (fraction of /api calls that 503),
+// failNext (the next N /api calls 503).
+import fs from "fs";
+import path from "path";
+import express from "express";
+import { MessageRecord } from "../src/types.js";
+
+type MockChat = { chatId: string; displayName: string; isGroup: boolean };
+type CorpusMessage = Partial<MessageRecord> & { chatId: string; body: string | null; agoMinutes?: number };
+type CorpusFile = { chats?: MockChat[]; messages: CorpusMessage[] };
+
+type MockState = {
+  state: string;
+  needsQr: boolean;
+  startupInfillStatus: "running" | "done" | "failed";
+  startupInfillError: string | null;
+  infillDelayMs: number;
+  errorRate: number;
+  failNext: number;
+};
+
+const PORT = Number(process.env.MOCK_SERVICE_A_PORT ?? 3000);
+const API_KEY = process.env.MOCK_SERVICE_A_API_KEY ?? "";
+const SEED = Number(process.env.MOCK_SERVICE_A_SEED ?? 42) || 42;
+const CORPUS_PATH = process.env.MOCK_SERVICE_A_CORPUS ?? "";
+const startedAt = Date.now();
+
+const mock: MockState = {
+  state: process.env.MOCK_SERVICE_A_STATE ?? "connected",
+  needsQr: String(process.env.MOCK_SERVICE_A_NEEDS_QR ?? "false").toLowerCase() === "true",
+  startupInfillStatus: (["running", "done", "failed"].includes(String(process.env.MOCK_SERVICE_A_INFILL))
+    ? process.env.MOCK_SERVICE_A_INFILL
+    : "done") as MockState["startupInfillStatus"],
+  startupInfillError: null,
+  infillDelayMs: Math.max(0, Number(process.env.MOCK_SERVICE_A_INFILL_DELAY_MS ?? 0) || 0),
+  errorRate: Math.min(1, Math.max(0, Number(process.env.MOCK_SERVICE_A_ERROR_RATE ?? 0) || 0)),
+  failNext: 0,
+};
+
+// mulberry32: small deterministic PRNG so a seed always yields the same corpus and error pattern
+function createRng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const errorRng = createRng(SEED + 1);
+
+const NAMES = ["Alice", "Bruno", "Carmen", "Dev", "Elena", "Femi", "Grace", "Hugo", "Ines", "Jonas"];
+const GROUPS = ["Family", "Five-a-side", "Flat 3B"];
+const LINES_THEM = [
+  "Can you send me the invoice by Friday?",
+  "Are we still on for dinner tomorrow at 7pm?",
+  "Did you get a chance to look at the contract?",
+  "Call me when you're free, it's about the flat",
+  "I'll drop the keys off on Saturday morning",
+  "Can you confirm the booking for next Tuesday?",
+  "Thanks for yesterday!",
+  "Running 10 min late",
+  "What time works for the dentist on Monday?",
+  "Let me know if you need the documents again",
+];
+const LINES_ME = [
+  "Sure, I'll send it tonight",
+  "Yes, 7pm works",
+  "Not yet, will look at it this weekend",
+  "Will call you after work",
+  "Great, thanks",
+  "I'll check and get back to you tomorrow",
+  "No worries",
+  "Let me check my calendar",
+];
+
+function generateCorpus(seed: number): { chats: MockChat[]; messages: MessageRecord[] } {
+  const rng = createRng(seed);
+  const pick = <T,>(arr: T[]) => arr[Math.floor(rng() * arr.length)];
+  const chats: MockChat[] = [
+    ...NAMES.map((name, i) => ({ chatId: `4477000000${String(i).padStart(2, "0")}@c.us`, displayName: name, isGroup: false })),
+    ...GROUPS.map((name, i) => ({ chatId: `1203630000000${i}@g.us`, displayName: name, isGroup: true })),
+  ];
+  const messages: MessageRecord[] = [];
+  let counter = 0;
+  for (const chat of chats) {
+    const count = 20 + Math.floor(rng() * 60);
+    // each chat starts at a random point in the last 14 days and runs up to now
+    let ts = startedAt - Math.floor(rng() * 14 * 24 * 60 * 60 * 1000);
+    for (let i = 0; i < count && ts < startedAt; i++) {
+      const fromMe = rng() < 0.4;
+      const sender = chat.isGroup && !fromMe ? pick(NAMES) : chat.displayName;
+      messages.push({
+        id: `mock_${seed}_${++counter}`,
+        chatId: chat.chatId,
+        senderId: fromMe ? "me" : chat.isGroup ? `${sender.toLowerCase()}@c.us` : chat.chatId,
+        displayName: fromMe ? "me" : sender,
+        fromMe,
+        type: "chat",
+        body: fromMe ? pick(LINES_ME) : pick(LINES_THEM),
+        ts,
+      });
+      ts += Math.floor(rng() * 6 * 60 * 60 * 1000);
+    }
+  }
+  return { chats, messages };
+}
+
+function loadCorpusFile(file: string): { chats: MockChat[]; messages: MessageRecord[] } {
+  const raw = JSON.parse(fs.readFileSync(path.resolve(file), "utf8")) as CorpusFile;
+  const messages: MessageRecord[] = (raw.messages ?? []).map((m, i) => ({
+    id: m.id ?? `corpus_${i + 1}`,
+    chatId: m.chatId,
+    senderId: m.senderId ?? (m.fromMe ? "me" : m.chatId),
+    displayName: m.displayName ?? (m.fromMe ? "me" : m.chatId),
+    fromMe: !!m.fromMe,
+    type: m.type ?? "chat",
+    body: m.body ?? null,
+    // agoMinutes keeps fixture corpora fresh relative to server start
+    ts: m.ts ?? startedAt - (m.agoMinutes ?? 0) * 60 * 1000,
+  }));
+  const known = new Map((raw.chats ?? []).map((c) => [c.chatId, c]));
+  for (const m of messages) {
+    if (!known.has(m.chatId)) {
+      known.set(m.chatId, { chatId: m.chatId, displayName: m.fromMe ? m.chatId : m.displayName, isGroup: m.chatId.endsWith("@g.us") });
+    }
+  }
+  return { chats: Array.from(known.values()), messages };
+}
+
+let corpus = CORPUS_PATH ? loadCorpusFile(CORPUS_PATH) : generateCorpus(SEED);
+corpus.messages.sort((a, b) => a.ts - b.ts);
+let backfillTargets: { chatId: string; targetMessages: number; postedAt: number }[] = [];
+
+function infillStatus(): MockState["startupInfillStatus"] {
+  if (mock.startupInfillStatus === "done" && Date.now() - startedAt < mock.infillDelayMs) return "running";
+  return mock.startupInfillStatus;
+}
+
+function num(raw: any, fallback: number): number {
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+// Mirrors the real paging envelope: `truncated` when more rows matched than `limit`.
+function page(rows: MessageRecord[], limit: number, fromEnd = false) {
+  const slice = fromEnd ? rows.slice(Math.max(0, rows.length - limit)) : rows.slice(0, limit);
+  return { messages: slice, total: rows.length, limit, hasMore: rows.length > limit, truncated: rows.length > limit };
+}
+
+function chatMessages(chatId: string) {
+  return corpus.messages.filter((m) => m.chatId === chatId);
+}
+
+function chatSummaries() {
+  return corpus.chats
+    .map((c) => {
+      const msgs = chatMessages(c.chatId);
+      return { ...c, messageCount: msgs.length, lastMessageTs: msgs.length ? msgs[msgs.length - 1].ts : null };
+    })
+    .sort((a, b) => (b.lastMessageTs ?? 0) - (a.lastMessageTs ?? 0));
+}
+
+const app = express();
+app.use(express.json({ limit: "10mb" }));
+
+app.use((req, res, next) => {
+  if (req.path.startsWith("/__mock")) return next();
+  if (API_KEY && req.header("authorization") !== `Bearer ${API_KEY}`) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  if (req.path.startsWith("/api/")) {
+    if (mock.failNext > 0) {
+      mock.failNext--;
+      return res.status(503).json({ error: "mock_transient_failure" });
+    }
+    if (mock.errorRate > 0 && errorRng() < mock.errorRate) {
+      return res.status(503).json({ error: "mock_transient_failure" });
+    }
+  }
+  next();
+});
+
+app.get("/status", (_req, res) => {
+  const status = infillStatus();
+  res.json({
+    state: mock.state,
+    clientState: mock.state,
+    needsQr: mock.needsQr,
+    startupInfillStatus: status,
+    startupInfillStartedAt: startedAt,
+    startupInfillFinishedAt: status === "done" ? startedAt + mock.infillDelayMs : null,
+    startupInfillFetchedChats: status === "done" ? corpus.chats.length : 0,
+    startupInfillFetchedMessages: status === "done" ? corpus.messages.length : 0,
+    startupInfillError: status === "failed" ? mock.startupInfillError ?? "mock_infill_failed" : null,
+  });
+});
+
+app.get("/api/messages/recent", (req, res) => {
+  res.json(page(corpus.messages, num(req.query.limit, 100), true));
+});
+
+app.get("/api/messages/since", (req, res) => {
+  const ts = num(req.query.ts, 0);
+  res.json(page(corpus.messages.filter((m) => m.ts > ts), num(req.query.limit, 2000)));
+});
+
+// ts <= 0 means "no upper bound" (callers use before=0 to fetch the latest N)
+app.get("/api/messages/before", (req, res) => {
+  const ts = num(req.query.ts, 0);
+  res.json(page(corpus.messages.filter((m) => ts <= 0 || m.ts < ts), num(req.query.limit, 2000), true));
+});
+
+app.get("/api/messages/chat/:chatId", (req, res) => {
+  const rows = chatMessages(req.params.chatId);
+  const limit = num(req.query.limit, 100);
+  const offset = num(req.query.offset, 0);
+  // offset counts back from the newest message, results stay chronological
+  const end = Math.max(0, rows.length - offset);
+  res.json({ messages: rows.slice(Math.max(0, end - limit), end), total: rows.length, limit, offset, hasMore: end - limit > 0 });
+});
+
+app.get("/api/messages/chat/:chatId/since", (req, res) => {
+  const ts = num(req.query.ts, 0);
+  res.json(page(chatMessages(req.params.chatId).filter((m) => m.ts > ts), num(req.query.limit, 200)));
+});
+
+app.get("/api/messages/chat/:chatId/before", (req, res) => {
+  const ts = num(req.query.ts, 0);
+  res.json(page(chatMessages(req.params.chatId).filter((m) => ts <= 0 || m.ts < ts), num(req.query.limit, 200), true));
+});
+
+app.get("/api/chats/active", (req, res) => {
+  const includeGroups = String(req.query.includeGroups ?? "false").toLowerCase() === "true";
+  const chats = chatSummaries()
+    .filter((c) => includeGroups || !c.isGroup)
+    .slice(0, num(req.query.limit, 50))
+    .map(({ chatId, isGroup, displayName, messageCount }) => ({ chatId, isGroup, displayName, messageCount }));
+  res.json({ chats });
+});
+
+app.get("/api/chats/:chatId/stats", (req, res) => {
+  const msgs = chatMessages(req.params.chatId);
+  res.json({
+    chatId: req.params.chatId,
+    messageCount: msgs.length,
+    oldestTs: msgs[0]?.ts ?? null,
+    newestTs: msgs[msgs.length - 1]?.ts ?? null,
+  });
+});
+
+app.get("/api/contacts", (req, res) => {
+  const contacts = chatSummaries()
+    .slice(0, num(req.query.limit, 500))
+    .map((c) => ({
+      chatId: c.chatId,
+      displayName: c.displayName,
+      pushname: c.displayName,
+      savedName: c.isGroup ? null : c.displayName,
+      isGroup: c.isGroup,
+      lastMessageTs: c.lastMessageTs,
+      messageCount: c.messageCount,
+    }));
+  res.json({ contacts });
+});
+
+app.get("/api/coverage/status", (_req, res) => {
+  const direct = chatSummaries().filter((c) => !c.isGroup);
+  const targetFor = (chatId: string) => backfillTargets.find((t) => t.chatId === chatId)?.targetMessages ?? null;
+  // A chat counts as covered once it has messages, unless a posted backfill target is still above its count.
+  const covered = direct.filter((c) => c.messageCount > 0 && c.messageCount >= (targetFor(c.chatId) ?? 0)).length;
+  res.json({
+    directChatsTotal: direct.length,
+    directChatsCovered: covered,
+    directCoveragePct: direct.length ? Math.round((covered / direct.length) * 100) : 0,
+    topChats: direct.slice(0, 20).map((c) => ({ chatId: c.chatId, messageCount: c.messageCount, targetMessages: targetFor(c.chatId) ?? 500 })),
+  });
+});
+
+app.post("/api/backfill/targets", (req, res) => {
+  const targets = Array.isArray(req.body?.targets) ? req.body.targets : [];
+  const now = Date.now();
+  const accepted = targets
+    .filter((t: any) => typeof t?.chatId === "string" && Number.isFinite(Number(t?.targetMessages)))
+    .map((t: any) => ({ chatId: t.chatId, targetMessages: Number(t.targetMessages), postedAt: now }));
+  const byChat = new Map(backfillTargets.map((t) => [t.chatId, t]));
+  for (const t of accepted) byChat.set(t.chatId, t);
+  backfillTargets = Array.from(byChat.values());
+  res.json({ ok: true, accepted: accepted.length });
+});
+
+app.post("/api/messages/send", (req, res) => {
+  const chatId = typeof req.body?.chatId === "string" ? req.body.chatId : "";
+  const text = typeof req.body?.text === "string" ? req.body.text : "";
+  if (!chatId || !text) return res.status(400).json({ error: "chatId and text are required" });
+  const now = Date.now();
+  const id = `sent_${now}_${corpus.messages.length}`;
+  corpus.messages.push({ id, chatId, senderId: "me", displayName: "me", fromMe: true, type: "chat", body: text, ts: now });
+  res.json({ ok: true, id, ts: now });
+});
+
+app.get("/api/debug/state", (_req, res) => {
+  res.json({ backfillTargets, mock: { ...mock, startupInfillStatus: infillStatus() }, messages: corpus.messages.length, chats: corpus.chats.length });
+});
+
+// --- control endpoints (mock only) ---
+
+app.get("/__mock/state", (_req, res) => {
+  res.json({ ...mock, effectiveInfillStatus: infillStatus(), chats: corpus.chats.length, messages: corpus.messages.length });
+});
+
+app.post("/__mock/state", (req, res) => {
+  const body = req.body ?? {};
+  if (typeof body.state === "string") mock.state = body.state;
+  if (typeof body.needsQr === "boolean") mock.needsQr = body.needsQr;
+  if (["running", "done", "failed"].includes(body.startupInfillStatus)) mock.startupInfillStatus = body.startupInfillStatus;
+  if (typeof body.startupInfillError === "string" || body.startupInfillError === null) mock.startupInfillError = body.startupInfillError;
+  if (Number.isFinite(Number(body.infillDelayMs))) mock.infillDelayMs = Math.max(0, Number(body.infillDelayMs));
+  if (Number.isFinite(Number(body.errorRate))) mock.errorRate = Math.min(1, Math.max(0, Number(body.errorRate)));
+  if (Number.isFinite(Number(body.failNext))) mock.failNext = Math.max(0, Math.floor(Number(body.failNext)));
+  res.json(mock);
+});
+
+// Re-seed: { seed } regenerates, { corpusPath } loads a file, { messages } appends (ts defaults to now).
+app.post("/__mock/seed", (req, res) => {
+  try {
+    const body = req.body ?? {};
+    if (typeof body.corpusPath === "string") {
+      corpus = loadCorpusFile(body.corpusPath);
+    } else if (Number.isFinite(Number(body.seed))) {
+      corpus = generateCorpus(Number(body.seed));
+    }
+    if (Array.isArray(body.messages)) {
+      const now = Date.now();
+      for (const m of body.messages as CorpusMessage[]) {
+        if (!m?.chatId) continue;
+        corpus.messages.push({
+          id: m.id ?? `appended_${now}_${corpus.messages.length}`,
+          chatId: m.chatId,
+          senderId: m.senderId ?? (m.fromMe ? "me" : m.chatId),
+          displayName: m.displayName ?? (m.fromMe ? "me" : m.chatId),
+          fromMe: !!m.fromMe,
+          type: m.type ?? "chat",
+          body: m.body ?? null,
+          ts: m.ts ?? now - (m.agoMinutes ?? 0) * 60 * 1000,
+        });
+        if (!corpus.chats.some((c) => c.chatId === m.chatId)) {
+          corpus.chats.push({ chatId: m.chatId, displayName: m.displayName ?? m.chatId, isGroup: m.chatId.endsWith("@g.us") });
+        }
+      }
+    }
+    corpus.messages.sort((a, b) => a.ts - b.ts);
+    backfillTargets = [];
+    res.json({ ok: true, chats: corpus.chats.length, messages: corpus.messages.length });
+  } catch (err: any) {
+    console.error("Error in /__mock/seed:", err);
+    res.status(400).json({ error: err?.message ?? "Failed to seed corpus" });
+  }
+});
+
+app.listen(PORT, () => {
+  console.log(
+    `[mock-service-a] listening on :${PORT} (${corpus.chats.length} chats, ${corpus.messages.length} messages, ${
+      CORPUS_PATH ? `corpus ${CORPUS_PATH}` : `seed ${SEED}`
+    })`
+  );
+});
@@ -0,0 +1,172 @@
+import fs from "fs";
+import path from "path";
+import crypto from "node:crypto";
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+
+// Record/replay of outbound traffic (Service A via whatsappClient, LLM endpoints via requestChatCompletion).
+// record: every request/response pair is written under CASSETTE_DIR/<service>/<key>.<seq>.json.
+// replay: answers come from the cassette only; nothing leaves the machine and a miss is an error.
+
+export type CassetteMode = "off" | "record" | "replay";
+export type CassetteService = "serviceA" | "llm";
+
+export type CassetteRequest = {
+  method: string;
+  url: string;
+  params?: any;
+  body?: any;
+};
+
+export type CassetteEntry = {
+  service: CassetteService;
+  key: string;
+  seq: number;
+  // hash of the full request (params + body); replay compares it to spot drift
+  requestHash: string;
+  recordedAt: number;
+  request: CassetteRequest;
+  // status 0 = transport error (no HTTP response); `code` keeps e.g. ECONNREFUSED for retry logic
+  response: { status: number; data: any; code?: string | null; message?: string | null };
+};
+
+function parseMode(raw: any): CassetteMode {
+  const value = String(raw ?? "off").trim().toLowerCase();
+  return value === "record" || value === "replay" ? value : "off";
+}
+
+export const cassetteConfig = {
+  mode: parseMode(process.env.CASSETTE_MODE),
+  // Cassettes hold raw chat content; keep them under out/ (gitignored) unless scrubbed.
+  dir: process.env.CASSETTE_DIR ?? path.join(process.cwd(), "out", "cassettes"),
+  // Requests carry clock-derived params (since-ts, generatedAtTs in prompts), so replay matches on
+  // method + path + call order. Strict mode also requires params/body to equal the recording.
+  strict: String(process.env.CASSETTE_STRICT ?? "false").toLowerCase() === "true",
+};
+
+export class CassetteMissError extends Error {
+  code = "CASSETTE_MISS";
+  constructor(public service: CassetteService, public key: string, public request: CassetteRequest, reason = "no entry") {
+    super(`Cassette ${reason} for ${service} ${request.method.toUpperCase()} ${request.url} (key ${key})`);
+    this.name = "CassetteMissError";
+  }
+}
+
+// Calls to the same endpoint are numbered in call order; replay serves them back in that order.
+const seqByKey = new Map<string, number>();
+
+function sha(material: unknown, len: number): string {
+  return crypto.createHash("sha256").update(JSON.stringify(material)).digest("hex").slice(0, len);
+}
+
+export function cassetteKey(service: CassetteService, req: CassetteRequest): string {
+  return sha({ service, method: req.method.toLowerCase(), url: req.url }, 16);
+}
+
+export function cassetteRequestHash(req: CassetteRequest): string {
+  return sha({ method: req.method.toLowerCase(), url: req.url, params: req.params ?? null, body: req.body ?? null }, 24);
+}
+
+function nextSeq(service: CassetteService, key: string): number {
+  const id = `${service}/${key}`;
+  const seq = seqByKey.get(id) ?? 0;
+  seqByKey.set(id, seq + 1);
+  return seq;
+}
+
+function entryPath(service: CassetteService, key: string, seq: number): string {
+  return path.join(cassetteConfig.dir, service, `${key}.${seq}.json`);
+}
+
+export function recordCassette(service: CassetteService, req: CassetteRequest, response: CassetteEntry["response"]): void {
+  const key = cassetteKey(service, req);
+  const seq = nextSeq(service, key);
+  const entry: CassetteEntry = { service, key, seq, requestHash: cassetteRequestHash(req), recordedAt: Date.now(), request: req, response };
+  try {
+    fs.mkdirSync(path.join(cassetteConfig.dir, service), { recursive: true });
+    fs.writeFileSync(entryPath(service, key, seq), JSON.stringify(entry, null, 2));
+  } catch (err) {
+    console.error("[cassette] record failed", { service, key, err });
+  }
+}
+
+// Past the last recorded occurrence the last answer keeps being served (pollers like /status).
+export function replayCassette(service: CassetteService, req: CassetteRequest): CassetteEntry {
+  const key = cassetteKey(service, req);
+  let seq = nextSeq(service, key);
+  while (seq >= 0) {
+    const file = entryPath(service, key, seq);
+    if (fs.existsSync(file)) {
+      const entry = JSON.parse(fs.readFileSync(file, "utf-8")) as CassetteEntry;
+      if (entry.requestHash !== cassetteRequestHash(req)) {
+        if (cassetteConfig.strict) throw new CassetteMissError(service, key, req, "request mismatch");
+        if (process.env.DEBUG_INTEL === "1") {
+          console.info("[cassette] request drift", { service, url: req.url, seq: entry.seq });
+        }
+      }
+      return entry;
+    }
+    seq--;
+  }
+  throw new CassetteMissError(service, key, req);
+}
+
+function axiosRequestOf(cfg: InternalAxiosRequestConfig): CassetteRequest {
+  let body = cfg.data ?? null;
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // keep raw string bodies as-is
+    }
+  }
+  return { method: cfg.method ?? "get", url: cfg.url ?? "", params: cfg.params ?? null, body };
+}
+
+// Adapters see the raw body before axios parses it; store JSON as JSON so cassettes stay reviewable.
+// Replayed objects pass through axios' response transform unchanged.
+function readableBody(data: any): any {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function replayAxiosResponse(cfg: InternalAxiosRequestConfig, entry: CassetteEntry): AxiosResponse {
+  const { status, data, code, message } = entry.response;
+  const response: AxiosResponse = { data, status, statusText: String(status), headers: {}, config: cfg };
+  if (status === 0) {
+    throw new AxiosError(message ?? "replayed transport error", code ?? undefined, cfg);
+  }
+  if (status < 200 || status >= 300) {
+    throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, cfg, null, response);
+  }
+  return response;
+}
+
+// Adapter for an axios instance; the service's retry/backoff wrappers stay outside, so retries are
+// recorded (and replayed) as separate occurrences.
+export function cassetteAxiosAdapter(service: CassetteService): AxiosAdapter | undefined {
+  if (cassetteConfig.mode === "off") return undefined;
+  const live = axios.getAdapter(axios.defaults.adapter);
+  return async (cfg) => {
+    const req = axiosRequestOf(cfg);
+    if (cassetteConfig.mode === "replay") {
+      return replayAxiosResponse(cfg, replayCassette(service, req));
+    }
+    try {
+      const res = await live(cfg);
+      recordCassette(service, req, { status: res.status, data: readableBody(res.data) });
+      return res;
+    } catch (err: any) {
+      recordCassette(service, req, {
+        status: err?.response?.status ?? 0,
+        data: readableBody(err?.response?.data ?? null),
+        code: err?.code ?? null,
+        message: err?.message ?? null,
+      });
+      throw err;
+    }
+  };
+}
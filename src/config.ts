@@ -14,7 +14,8 @@ export const config = {
   port: Number(process.env.PORT ?? 4000),
   whatsappBase: requireEnv("WHATSAPP_BASE"),
   whatsappApiKey: requireEnv("WHATSAPP_API_KEY"),
-  openRouterApiKey: requireEnv("OPENROUTER_API_KEY"),
+  // Only needed when a domain routes to the OpenRouter provider (see llmProviders.ts).
+  openRouterApiKey: process.env.OPENROUTER_API_KEY ?? "",
   openRouterModel: process.env.OPENROUTER_MODEL ?? "openai/gpt-4.1-mini",
   serviceATimeoutMs: (() => {
     const raw = process.env.SERVICE_A_TIMEOUT_MS;
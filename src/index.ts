@@ -4,6 +4,7 @@ import { config } from "./config.js";
 import { healthRouter } from "./routes/health.js";
 import { summaryRouter } from "./routes/summary.js";
 import { openLoopsRouter } from "./routes/openLoops.js";
+import { openLoopRulesRouter } from "./routes/openLoopRules.js";
 import { debugEaRouter } from "./routes/debugEa.js";
 import { digestRouter } from "./routes/digest.js";
 import { relationshipsRouter } from "./routes/relationships.js";
@@ -16,6 +17,9 @@ import { openLoopsRefreshRouter } from "./routes/openLoopsRefresh.js";
 import { onboardingPrimeRouter } from "./routes/onboardingPrime.js";
 import { intelRouter } from "./routes/intel.js";
 import { uiRouter } from "./routes/ui.js";
+import { ingestRouter } from "./routes/ingest.js";
+import { calendarRouter } from "./routes/calendar.js";
+import { notificationsRouter } from "./routes/notifications.js";
 import { Request, Response, NextFunction } from "express";
 import { startOrchestratorScheduler } from "./services/orchestratorScheduler.js";
 import { runBootstrapMirrorIfNeeded } from "./services/bootstrapMirror.js";
@@ -23,7 +27,11 @@ import { runBootstrapMirrorIfNeeded } from "./services/bootstrapMirror.js";
 const app = express();
 
 app.use(cors());
+// HMAC-signed webhook: needs the raw body and doesn't use the Bearer key, so it goes first.
+app.use(ingestRouter);
 app.use(express.json());
+// Token in the subscription URL instead of the Bearer key (calendar clients can't set headers).
+app.use(calendarRouter);
 
 const API_KEY = process.env.B_API_KEY;
 if (config.requireAuth && !API_KEY) {
@@ -45,6 +53,7 @@ app.use(apiKeyMiddleware);
 app.use(healthRouter);
 app.use(summaryRouter);
 app.use(openLoopsRouter);
+app.use(openLoopRulesRouter);
 app.use(debugEaRouter);
 app.use(openLoopsRefreshRouter);
 app.use(onboardingPrimeRouter);
@@ -57,6 +66,7 @@ app.use("/me", meRouter);
 app.use("/admin", adminRouter);
 app.use(intelRouter);
 app.use(uiRouter);
+app.use(notificationsRouter);
 
 app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
   console.error("Unhandled error:", err);
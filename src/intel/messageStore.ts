@@ -176,6 +176,34 @@ export async function getChatMessagesSince(
   }
 }
 
+// `before` messages at or before centerTs plus `after` messages following it, oldest first.
+export async function getChatMessagesAround(chatId: string, centerTs: number, before: number, after: number): Promise<FlatMessage[]> {
+  if (!chatId || !Number.isFinite(centerTs)) return [];
+  try {
+    const res = await pool.query(
+      `
+      (SELECT id, chat_id, sender, content, ts, role FROM messages WHERE chat_id = $1 AND ts <= $2 ORDER BY ts DESC LIMIT $3)
+      UNION ALL
+      (SELECT id, chat_id, sender, content, ts, role FROM messages WHERE chat_id = $1 AND ts > $2 ORDER BY ts ASC LIMIT $4)
+      ORDER BY ts ASC
+      `,
+      [chatId, centerTs, Math.max(0, before), Math.max(0, after)]
+    );
+    return (res.rows ?? []).map((r: any) => ({
+      id: r.id,
+      chatId: r.chat_id ?? r.chatId,
+      ts: Number(r.ts ?? 0),
+      fromMe: (r.role ?? "").toLowerCase() === "me",
+      body: typeof r.content === "string" ? r.content : null,
+      role: r.role ?? null,
+      type: "chat",
+    }));
+  } catch (err) {
+    console.error("[messageStore] getChatMessagesAround failed", err);
+    return [];
+  }
+}
+
 export async function getHighHeatChats(limit: number): Promise<{ chatId: string; heatTier?: string; heatScore?: number }[]> {
   if (!Number.isFinite(limit) || limit <= 0) return [];
   try {
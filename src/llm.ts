@@ -1,4 +1,8 @@
-import { callOpenRouter, ChatCompletionRequest } from "./openRouterClient.js";
+import { ZodIssue } from "zod";
+import { ChatCompletionRequest, ChatCompletionResult, ChatMessage, CompletionUsage, parseJsonContent } from "./openRouterClient.js";
+import { getProviderFor, LLMProvider } from "./llmProviders.js";
+import { buildCacheKey, isCacheEnabledFor, readCache, writeCache } from "./llmCache.js";
+import { saveLlmCall } from "./services/llmUsagePersistence.js";
 
 export const MODEL_REGISTRY = {
   // 4-hour window analysis (V2 windows)
@@ -18,6 +22,7 @@ export const MODEL_REGISTRY = {
   // coaching / reflection
   coaching: "openai/gpt-5-nano",
   userProfile: "openai/gpt-5-nano",
+  draftReply: "openai/gpt-4o-mini",
 
   // intel facts extraction
   intelFacts: "openai/gpt-4o-mini",
@@ -27,6 +32,19 @@ export const MODEL_REGISTRY = {
 
 export type ModelDomain = keyof typeof MODEL_REGISTRY;
 
+// USD per 1M tokens for the models above (plus the OPENROUTER_MODEL default); calls on unlisted models record cost_usd = null.
+export const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  "openai/gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "openai/gpt-5-nano": { prompt: 0.05, completion: 0.4 },
+  "openai/gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+};
+
+export function estimateCostUsd(model: string, usage: CompletionUsage | null): number | null {
+  const price = MODEL_PRICING[model];
+  if (!price || !usage) return null;
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
+
 export function getModelFor(domain: ModelDomain): string {
   return MODEL_REGISTRY[domain];
 }
@@ -35,12 +53,229 @@ export function getModelForDomain(domain: ModelDomain): { model: string } {
   return { model: getModelFor(domain) };
 }
 
+const LLM_REPAIR_MAX_ATTEMPTS = (() => {
+  const n = Number(process.env.LLM_REPAIR_MAX_ATTEMPTS ?? 1);
+  if (!Number.isFinite(n) || n < 0) return 1;
+  return Math.min(Math.floor(n), 3);
+})();
+
+export type CallLLMOpts = {
+  runId?: number | null;
+  chatId?: string | null;
+  // Overrides the registry model for this call (e.g. a cheaper fallback chosen by the budget check).
+  model?: string;
+  // Skip the cache read (a fresh answer is still written back).
+  bypassCache?: boolean;
+};
+
+export type CallLLMResult<T> = { data: T; cacheHit: boolean; model: string };
+
+export type LLMRunStats = {
+  calls: number;
+  validated: number;
+  schemaFailures: number;
+  repairAttempts: number;
+  repaired: number;
+  failed: number;
+  cacheHits: number;
+  cacheMisses: number;
+};
+
+export class LLMSchemaError extends Error {
+  readonly domain: ModelDomain;
+  readonly issues: string[];
+  constructor(domain: ModelDomain, issues: string[]) {
+    super(`LLM output for ${domain} failed schema validation: ${issues.slice(0, 3).join("; ")}`);
+    this.name = "LLMSchemaError";
+    this.domain = domain;
+    this.issues = issues;
+  }
+}
+
+const runStatsByRun = new Map<number, Partial<Record<ModelDomain, LLMRunStats>>>();
+
+function bumpRunStats(runId: number | null | undefined, domain: ModelDomain, patch: Partial<LLMRunStats>) {
+  if (runId == null) return;
+  const byDomain = runStatsByRun.get(runId) ?? {};
+  const stats = byDomain[domain] ?? {
+    calls: 0,
+    validated: 0,
+    schemaFailures: 0,
+    repairAttempts: 0,
+    repaired: 0,
+    failed: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+  };
+  for (const [k, v] of Object.entries(patch) as [keyof LLMRunStats, number][]) stats[k] += v;
+  byDomain[domain] = stats;
+  runStatsByRun.set(runId, byDomain);
+}
+
+// Reads a run's per-domain stats without clearing them (for artifacts written before finishRun).
+export function peekRunStats(runId: number | null): Partial<Record<ModelDomain, LLMRunStats>> | null {
+  if (runId == null) return null;
+  return runStatsByRun.get(runId) ?? null;
+}
+
+// Drains the per-domain stats collected for a run (finishRun persists them on intel_runs.llm_stats).
+export function takeRunStats(runId: number | null): Partial<Record<ModelDomain, LLMRunStats>> | null {
+  const stats = peekRunStats(runId);
+  if (runId != null) runStatsByRun.delete(runId);
+  return stats;
+}
+
+// Cache hit/miss totals across domains, the shape run artifacts carry.
+export function summarizeRunCache(runId: number | null): { cacheHits: number; cacheMisses: number; cacheHit: boolean } {
+  let cacheHits = 0;
+  let cacheMisses = 0;
+  for (const stats of Object.values(peekRunStats(runId) ?? {})) {
+    cacheHits += stats?.cacheHits ?? 0;
+    cacheMisses += stats?.cacheMisses ?? 0;
+  }
+  return { cacheHits, cacheMisses, cacheHit: cacheHits > 0 };
+}
+
+function formatIssues(issues: ZodIssue[]): string[] {
+  return issues.slice(0, 20).map((i) => `${i.path.length ? i.path.join(".") : "(root)"}: ${i.message}`);
+}
+
+function buildRepairMessages(base: ChatMessage[], content: string, issues: string[]): ChatMessage[] {
+  return [
+    ...base,
+    { role: "assistant", content },
+    {
+      role: "user",
+      content: `Your previous reply did not match the required JSON shape:\n${issues.map((i) => `- ${i}`).join("\n")}\nReturn the corrected JSON object only, same content, no markdown.`,
+    },
+  ];
+}
+
+// One provider round-trip, with usage/latency written to llm_calls whether it succeeds or not.
+async function completeAndRecord(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  ctx: { model: string; domain: ModelDomain; attempt: number; opts: CallLLMOpts }
+): Promise<ChatCompletionResult> {
+  const { model, domain, attempt, opts } = ctx;
+  const started = Date.now();
+  try {
+    const result = await provider.complete({ messages }, { model, domain });
+    const servedModel = result.model ?? model;
+    await saveLlmCall({
+      ts: started,
+      domain,
+      model: servedModel,
+      provider: provider.name,
+      runId: opts.runId,
+      chatId: opts.chatId,
+      attempt,
+      status: "ok",
+      promptTokens: result.usage?.promptTokens,
+      completionTokens: result.usage?.completionTokens,
+      totalTokens: result.usage?.totalTokens,
+      latencyMs: Date.now() - started,
+      costUsd: estimateCostUsd(servedModel, result.usage),
+    });
+    return result;
+  } catch (err: any) {
+    await saveLlmCall({
+      ts: started,
+      domain,
+      model,
+      provider: provider.name,
+      runId: opts.runId,
+      chatId: opts.chatId,
+      attempt,
+      status: "error",
+      latencyMs: Date.now() - started,
+      error: err?.message ?? String(err),
+    });
+    throw err;
+  }
+}
+
+// Parses and validates provider output, running repair round-trips; returns the data and the content that passed.
+async function completeValidated<T>(
+  provider: LLMProvider,
+  domain: ModelDomain,
+  model: string,
+  payload: ChatCompletionRequest,
+  opts: CallLLMOpts
+): Promise<{ data: T; content: string }> {
+  const schema = payload.schema;
+  if (!schema) {
+    const { content } = await completeAndRecord(provider, payload.messages, { model, domain, attempt: 0, opts });
+    return { data: parseJsonContent<T>(content), content };
+  }
+
+  bumpRunStats(opts.runId, domain, { calls: 1 });
+  let messages = payload.messages;
+  for (let attempt = 0; ; attempt++) {
+    const { content } = await completeAndRecord(provider, messages, { model, domain, attempt, opts });
+    let issues: string[];
+    try {
+      const result = schema.safeParse(parseJsonContent(content));
+      if (result.success) {
+        bumpRunStats(opts.runId, domain, attempt > 0 ? { validated: 1, repaired: 1 } : { validated: 1 });
+        return { data: result.data as T, content };
+      }
+      issues = formatIssues(result.error.issues);
+    } catch (err: any) {
+      issues = [`(root): invalid JSON (${err?.message ?? "parse failed"})`];
+    }
+    bumpRunStats(opts.runId, domain, { schemaFailures: 1 });
+    if (attempt >= LLM_REPAIR_MAX_ATTEMPTS) {
+      bumpRunStats(opts.runId, domain, { failed: 1 });
+      console.warn("[llm] schema validation failed", { domain, chatId: opts.chatId ?? null, attempts: attempt + 1, issues: issues.slice(0, 5) });
+      throw new LLMSchemaError(domain, issues);
+    }
+    bumpRunStats(opts.runId, domain, { repairAttempts: 1 });
+    messages = buildRepairMessages(payload.messages, content, issues);
+  }
+}
+
+// Cached entries are re-validated so a schema change never serves an answer the callers can't handle.
+function parseCached<T>(content: string, payload: ChatCompletionRequest): T | null {
+  try {
+    const parsed = parseJsonContent(content);
+    if (!payload.schema) return parsed as T;
+    const result = payload.schema.safeParse(parsed);
+    return result.success ? (result.data as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function callLLMWithMeta<T = unknown>(
+  domain: ModelDomain,
+  payload: ChatCompletionRequest,
+  opts: CallLLMOpts = {}
+): Promise<CallLLMResult<T>> {
+  const model = opts.model ?? getModelFor(domain);
+  const cacheKey = isCacheEnabledFor(domain) ? buildCacheKey(domain, model, payload) : null;
+  if (cacheKey && !opts.bypassCache) {
+    const cached = await readCache(cacheKey);
+    const data = cached != null ? parseCached<T>(cached, payload) : null;
+    if (data != null) {
+      bumpRunStats(opts.runId, domain, { cacheHits: 1 });
+      return { data, cacheHit: true, model };
+    }
+  }
+  if (cacheKey) bumpRunStats(opts.runId, domain, { cacheMisses: 1 });
+
+  const { data, content } = await completeValidated<T>(getProviderFor(domain), domain, model, payload, opts);
+  if (cacheKey) await writeCache(cacheKey, content);
+  return { data, cacheHit: false, model };
+}
+
 export async function callLLM<T = unknown>(
   domain: ModelDomain,
-  payload: ChatCompletionRequest
+  payload: ChatCompletionRequest,
+  opts: CallLLMOpts = {}
 ): Promise<T> {
-  const model = getModelFor(domain);
-  return callOpenRouter<T>(payload, { model });
+  const { data } = await callLLMWithMeta<T>(domain, payload, opts);
+  return data;
 }
 
 // Backwards-friendly alias
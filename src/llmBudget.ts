@@ -0,0 +1,98 @@
+import { getModelFor, ModelDomain } from "./llm.js";
+import { getLlmSpend, LlmSpend } from "./services/llmUsagePersistence.js";
+
+// Only the lanes that call checkLlmBudget are gated (radar, signals, window analysis).
+// open_loops_refresh_run never asks, so it keeps running when a domain is over budget.
+
+export type LlmBudgetAction = "run" | "downgrade" | "skip";
+
+export type LlmBudgetReasonCode =
+  | "LLM_BUDGET_OK"
+  | "LLM_DAILY_BUDGET_DOWNGRADE"
+  | "LLM_DAILY_BUDGET_SKIP"
+  | "LLM_RUN_BUDGET_DOWNGRADE"
+  | "LLM_RUN_BUDGET_SKIP";
+
+export type LlmBudgetDecision = {
+  domain: ModelDomain;
+  action: LlmBudgetAction;
+  reasonCode: LlmBudgetReasonCode;
+  model: string;
+  spent: { daily: LlmSpend | null; run: LlmSpend | null };
+  limits: { dailyTokens: number | null; dailyCostUsd: number | null; runTokens: number | null };
+};
+
+function parseDomainNumbers(raw: any): Partial<Record<string, number>> {
+  const map: Partial<Record<string, number>> = {};
+  if (!raw) return map;
+  for (const part of String(raw).split(",")) {
+    const [domain, value] = part.split("=").map((s) => s.trim());
+    const n = Number(value);
+    if (domain && Number.isFinite(n) && n >= 0) map[domain] = n;
+  }
+  return map;
+}
+
+function parseDomainStrings(raw: any): Partial<Record<string, string>> {
+  const map: Partial<Record<string, string>> = {};
+  if (!raw) return map;
+  for (const part of String(raw).split(",")) {
+    const [domain, value] = part.split("=").map((s) => s.trim());
+    if (domain && value) map[domain] = value;
+  }
+  return map;
+}
+
+export const llmBudgetConfig = {
+  // e.g. LLM_DAILY_TOKEN_BUDGETS="signals=200000,heatTriage=150000,window=300000"
+  dailyTokens: parseDomainNumbers(process.env.LLM_DAILY_TOKEN_BUDGETS),
+  // e.g. LLM_DAILY_COST_BUDGETS_USD="signals=0.25"
+  dailyCostUsd: parseDomainNumbers(process.env.LLM_DAILY_COST_BUDGETS_USD),
+  // e.g. LLM_RUN_TOKEN_BUDGETS="heatTriage=50000"
+  runTokens: parseDomainNumbers(process.env.LLM_RUN_TOKEN_BUDGETS),
+  // Over budget with a fallback configured => downgrade instead of skip, e.g. "signals=openai/gpt-5-nano"
+  fallbackModels: parseDomainStrings(process.env.LLM_BUDGET_FALLBACK_MODELS),
+  // "Daily" resets at local midnight in the scheduler timezone.
+  tz: process.env.ORCH_TZ ?? "Europe/London",
+};
+
+function overDaily(domain: ModelDomain, spend: LlmSpend | null): boolean {
+  if (!spend) return false;
+  const tokenLimit = llmBudgetConfig.dailyTokens[domain];
+  const costLimit = llmBudgetConfig.dailyCostUsd[domain];
+  if (tokenLimit != null && spend.tokens >= tokenLimit) return true;
+  if (costLimit != null && spend.costUsd >= costLimit) return true;
+  return false;
+}
+
+// Compact form for run artifacts (the reasonCode is stored alongside it at the top level).
+export function summarizeBudget(decision: LlmBudgetDecision) {
+  return { action: decision.action, model: decision.model, spent: decision.spent, limits: decision.limits };
+}
+
+export async function checkLlmBudget(domain: ModelDomain, opts: { runId?: number | null } = {}): Promise<LlmBudgetDecision> {
+  const limits = {
+    dailyTokens: llmBudgetConfig.dailyTokens[domain] ?? null,
+    dailyCostUsd: llmBudgetConfig.dailyCostUsd[domain] ?? null,
+    runTokens: llmBudgetConfig.runTokens[domain] ?? null,
+  };
+  const hasDaily = limits.dailyTokens != null || limits.dailyCostUsd != null;
+  const hasRun = limits.runTokens != null && opts.runId != null;
+  // Spend lookups fail open (null): an unreachable llm_calls table must not stop the lanes.
+  const daily = hasDaily ? await getLlmSpend({ domain, tz: llmBudgetConfig.tz }) : null;
+  const run = hasRun ? await getLlmSpend({ domain, tz: llmBudgetConfig.tz, runId: opts.runId }) : null;
+
+  const runOver = hasRun && !!run && run.tokens >= (limits.runTokens ?? Infinity);
+  const dailyOver = hasDaily && overDaily(domain, daily);
+  const fallback = llmBudgetConfig.fallbackModels[domain];
+  const base = { domain, spent: { daily, run }, limits };
+
+  if (!runOver && !dailyOver) {
+    return { ...base, action: "run", reasonCode: "LLM_BUDGET_OK", model: getModelFor(domain) };
+  }
+  const scope = runOver ? "RUN" : "DAILY";
+  if (fallback) {
+    return { ...base, action: "downgrade", reasonCode: `LLM_${scope}_BUDGET_DOWNGRADE`, model: fallback };
+  }
+  return { ...base, action: "skip", reasonCode: `LLM_${scope}_BUDGET_SKIP`, model: getModelFor(domain) };
+}
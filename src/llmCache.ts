@@ -0,0 +1,39 @@
+import crypto from "node:crypto";
+import type { ModelDomain } from "./llm.js";
+import { ChatCompletionRequest } from "./openRouterClient.js";
+import { cassetteConfig } from "./cassette.js";
+import { LlmCacheKey, readCachedResponse, writeCachedResponse } from "./services/llmCachePersistence.js";
+
+export const llmCacheConfig = {
+  // Opt-in per domain, e.g. LLM_CACHE_DOMAINS="openLoops,window"; empty disables the cache.
+  domains: new Set(
+    String(process.env.LLM_CACHE_DOMAINS ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean)
+  ),
+  ttlHours: (() => {
+    const n = Number(process.env.LLM_CACHE_TTL_HOURS ?? 168);
+    if (!Number.isFinite(n) || n <= 0) return 168;
+    return Math.min(n, 24 * 90);
+  })(),
+};
+
+export function isCacheEnabledFor(domain: ModelDomain): boolean {
+  // Cache hits would skip calls a cassette recorded (or record none), breaking call-order replay.
+  if (cassetteConfig.mode !== "off") return false;
+  return llmCacheConfig.domains.has(domain);
+}
+
+export function buildCacheKey(domain: ModelDomain, model: string, payload: ChatCompletionRequest): LlmCacheKey {
+  const promptHash = crypto.createHash("sha256").update(JSON.stringify(payload.messages ?? [])).digest("hex");
+  return { domain, model, promptHash, promptVersion: payload.promptVersion ?? "unversioned" };
+}
+
+export function readCache(key: LlmCacheKey): Promise<string | null> {
+  return readCachedResponse(key);
+}
+
+export function writeCache(key: LlmCacheKey, content: string): Promise<void> {
+  return writeCachedResponse(key, content, llmCacheConfig.ttlHours);
+}
@@ -0,0 +1,110 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "node:crypto";
+import type { ModelDomain } from "./llm.js";
+import {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  fetchOpenRouterCompletion,
+  requestChatCompletion,
+} from "./openRouterClient.js";
+
+export type LLMProviderName = "openrouter" | "openai" | "fixture";
+
+export type LLMCompletionOpts = { model: string; domain: ModelDomain };
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  // Returns the raw assistant content (+ usage); JSON parsing stays in callLLM so every provider behaves the same.
+  complete(payload: ChatCompletionRequest, opts: LLMCompletionOpts): Promise<ChatCompletionResult>;
+}
+
+const PROVIDER_NAMES = new Set<LLMProviderName>(["openrouter", "openai", "fixture"]);
+
+export const llmProviderConfig = {
+  defaultProvider: parseProviderName(process.env.LLM_PROVIDER) ?? "openrouter",
+  // e.g. LLM_DOMAIN_PROVIDERS="heatTriage=fixture,signals=openai"
+  domainProviders: parseDomainProviders(process.env.LLM_DOMAIN_PROVIDERS),
+  openaiBaseUrl: process.env.OPENAI_COMPAT_BASE_URL ?? "http://localhost:11434/v1/chat/completions",
+  openaiApiKey: process.env.OPENAI_COMPAT_API_KEY ?? "",
+  // Local servers rarely know OpenRouter model ids; when set, this replaces the registry model.
+  openaiModel: process.env.OPENAI_COMPAT_MODEL ?? "",
+  openaiJsonMode: String(process.env.OPENAI_COMPAT_JSON_MODE ?? "true").toLowerCase() === "true",
+  fixtureDir: process.env.LLM_FIXTURE_DIR ?? path.join(process.cwd(), "fixtures", "llm"),
+};
+
+function parseProviderName(raw: any): LLMProviderName | null {
+  const value = String(raw ?? "").trim().toLowerCase();
+  return PROVIDER_NAMES.has(value as LLMProviderName) ? (value as LLMProviderName) : null;
+}
+
+function parseDomainProviders(raw: any): Partial<Record<string, LLMProviderName>> {
+  const map: Partial<Record<string, LLMProviderName>> = {};
+  if (!raw) return map;
+  for (const part of String(raw).split(",")) {
+    const [domain, provider] = part.split("=").map((s) => s.trim());
+    const name = parseProviderName(provider);
+    if (domain && name) map[domain] = name;
+  }
+  return map;
+}
+
+const openRouterProvider: LLMProvider = {
+  name: "openrouter",
+  complete(payload, opts) {
+    return fetchOpenRouterCompletion(payload, { model: opts.model });
+  },
+};
+
+const openAICompatibleProvider: LLMProvider = {
+  name: "openai",
+  complete(payload, opts) {
+    const headers: Record<string, string> = {};
+    if (llmProviderConfig.openaiApiKey) headers.Authorization = `Bearer ${llmProviderConfig.openaiApiKey}`;
+    return requestChatCompletion(
+      llmProviderConfig.openaiBaseUrl,
+      headers,
+      {
+        model: llmProviderConfig.openaiModel || opts.model,
+        messages: payload.messages,
+        ...(llmProviderConfig.openaiJsonMode ? { response_format: { type: "json_object" } } : {}),
+      },
+      "OpenAI-compatible"
+    );
+  },
+};
+
+export function fixtureKey(payload: ChatCompletionRequest): string {
+  return crypto.createHash("sha256").update(JSON.stringify(payload.messages ?? [])).digest("hex").slice(0, 16);
+}
+
+// Answers from recorded JSON: <fixtureDir>/<domain>/<fixtureKey>.json, else <fixtureDir>/<domain>/default.json.
+const fixtureProvider: LLMProvider = {
+  name: "fixture",
+  async complete(payload, opts) {
+    const dir = path.join(llmProviderConfig.fixtureDir, opts.domain);
+    const key = fixtureKey(payload);
+    for (const file of [`${key}.json`, "default.json"]) {
+      try {
+        return { content: await fs.readFile(path.join(dir, file), "utf-8"), usage: null };
+      } catch (err: any) {
+        if (err?.code !== "ENOENT") throw err;
+      }
+    }
+    throw new Error(`No LLM fixture for domain=${opts.domain} key=${key} in ${dir}`);
+  },
+};
+
+const providers: Record<LLMProviderName, LLMProvider> = {
+  openrouter: openRouterProvider,
+  openai: openAICompatibleProvider,
+  fixture: fixtureProvider,
+};
+
+export function getProviderNameFor(domain: ModelDomain): LLMProviderName {
+  return llmProviderConfig.domainProviders[domain] ?? llmProviderConfig.defaultProvider;
+}
+
+export function getProviderFor(domain: ModelDomain): LLMProvider {
+  return providers[getProviderNameFor(domain)];
+}
@@ -1,16 +1,13 @@
+import { ZodTypeAny } from "zod";
 import { config } from "./config.js";
+import { cassetteConfig, recordCassette, replayCassette } from "./cassette.js";
 
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY ?? config.openRouterApiKey;
 const OPENROUTER_BASE_URL =
   process.env.OPENROUTER_BASE_URL ?? "https://openrouter.ai/api/v1/chat/completions";
 const OPENROUTER_REFERER = process.env.OPENROUTER_REFERER ?? "pedrito-local";
 const OPENROUTER_TITLE = process.env.OPENROUTER_TITLE ?? "pedrito-intel";
 const DEFAULT_MODEL = process.env.OPENROUTER_MODEL ?? config.openRouterModel;
 
-if (!OPENROUTER_API_KEY) {
-  throw new Error("Missing OPENROUTER_API_KEY");
-}
-
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
   content: string;
@@ -18,41 +15,95 @@ export interface ChatMessage {
 
 export interface ChatCompletionRequest {
   messages: ChatMessage[];
+  // Expected output shape; callLLM validates against it and never sends it upstream.
+  schema?: ZodTypeAny;
+  // Builder revision; part of the LLM cache key so prompt edits never reuse stale answers.
+  promptVersion?: string;
 }
 
-export async function callOpenRouter<T = unknown>(
-  payload: ChatCompletionRequest,
-  opts?: { model?: string }
-): Promise<T> {
-  const model = opts?.model ?? DEFAULT_MODEL;
-  const res = await fetch(OPENROUTER_BASE_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-      "HTTP-Referer": OPENROUTER_REFERER,
-      "X-Title": OPENROUTER_TITLE,
-    },
-    body: JSON.stringify({
-      model,
-      ...payload,
-      response_format: { type: "json_object" },
-    }),
-  });
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  // null when the endpoint (or a fixture) doesn't report token counts
+  usage: CompletionUsage | null;
+  // model the endpoint says it actually served, when reported
+  model?: string;
+}
+
+function toUsage(raw: any): CompletionUsage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const promptTokens = Number(raw.prompt_tokens ?? 0) || 0;
+  const completionTokens = Number(raw.completion_tokens ?? 0) || 0;
+  const totalTokens = Number(raw.total_tokens ?? promptTokens + completionTokens) || 0;
+  return { promptTokens, completionTokens, totalTokens };
+}
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "no body");
-    throw new Error(`OpenRouter request failed (${res.status}): ${text}`);
+// POST with CASSETTE_MODE record/replay around it; headers (API keys) never reach the cassette.
+async function postCompletion(
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, any>
+): Promise<{ ok: boolean; status: number; data: any }> {
+  const req = { method: "post", url, body };
+  if (cassetteConfig.mode === "replay") {
+    const { response } = replayCassette("llm", req);
+    if (response.status === 0) throw new Error(response.message ?? "replayed transport error");
+    return { ok: response.status >= 200 && response.status < 300, status: response.status, data: response.data };
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (err: any) {
+    if (cassetteConfig.mode === "record") {
+      recordCassette("llm", req, { status: 0, data: null, code: err?.code ?? null, message: err?.message ?? String(err) });
+    }
+    throw err;
+  }
+  const text = await res.text().catch(() => "no body");
+  let data: any = text;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // non-JSON bodies (error pages) stay as text
+  }
+  if (cassetteConfig.mode === "record") recordCassette("llm", req, { status: res.status, data });
+  return { ok: res.ok, status: res.status, data };
+}
+
+// Shared POST for any OpenAI-style /chat/completions endpoint; returns the first choice's content and usage.
+export async function requestChatCompletion(
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, any>,
+  label = "OpenRouter"
+): Promise<ChatCompletionResult> {
+  const { ok, status, data } = await postCompletion(url, headers, body);
+
+  if (!ok) {
+    const text = typeof data === "string" ? data : JSON.stringify(data);
+    throw new Error(`${label} request failed (${status}): ${text}`);
   }
 
-  const data = await res.json();
   const choice = data.choices?.[0];
   const content = choice?.message?.content;
 
   if (!content) {
-    throw new Error("No content from OpenRouter");
+    throw new Error(`No content from ${label}`);
   }
+  return { content, usage: toUsage(data.usage), model: typeof data.model === "string" ? data.model : undefined };
+}
 
+export function parseJsonContent<T = unknown>(content: string): T {
   try {
     return JSON.parse(content) as T;
   } catch (err) {
@@ -61,3 +112,35 @@ export async function callOpenRouter<T = unknown>(
     return JSON.parse(match[0]) as T;
   }
 }
+
+export async function fetchOpenRouterCompletion(
+  payload: ChatCompletionRequest,
+  opts?: { model?: string }
+): Promise<ChatCompletionResult> {
+  const apiKey = process.env.OPENROUTER_API_KEY ?? config.openRouterApiKey;
+  if (!apiKey) {
+    throw new Error("Missing OPENROUTER_API_KEY");
+  }
+  const model = opts?.model ?? DEFAULT_MODEL;
+  return requestChatCompletion(
+    OPENROUTER_BASE_URL,
+    {
+      Authorization: `Bearer ${apiKey}`,
+      "HTTP-Referer": OPENROUTER_REFERER,
+      "X-Title": OPENROUTER_TITLE,
+    },
+    {
+      model,
+      messages: payload.messages,
+      response_format: { type: "json_object" },
+    }
+  );
+}
+
+export async function callOpenRouter<T = unknown>(
+  payload: ChatCompletionRequest,
+  opts?: { model?: string }
+): Promise<T> {
+  const { content } = await fetchOpenRouterCompletion(payload, opts);
+  return parseJsonContent<T>(content);
+}
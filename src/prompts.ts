@@ -6,6 +6,7 @@ import {
   RelationshipSummary,
   DailyStateSnapshot,
 } from "./types.js";
+import { z } from "zod";
 import { ChatCompletionRequest } from "./openRouterClient.js";
 
 export type HeatTriageChatMessage = { id: string; iso: string; speaker: "ME" | "OTHER"; body: string };
@@ -39,6 +40,24 @@ export type SignalsChat = {
   }[];
 };
 
+// Version ids per builder. Bump the entry whenever a builder's wording or schema changes: the id is
+// stamped on stored loops, run records and artifacts, and is part of the LLM cache key.
+export const PROMPT_VERSIONS = {
+  dailyState: "daily_state@v1",
+  heatTriage: "heat_triage@v1",
+  orchestratorHeat: "orchestrator_heat@v1",
+  signalsDigest: "signals_digest@v1",
+  signalsEvents: "signals_events@v1",
+  summary: "summary@v1",
+  openLoops: "open_loops_postit@v1",
+  eaOpenLoops: "ea_open_loops@v3",
+  relationship: "relationship@v1",
+  intelFacts: "intel_facts@v1",
+  draftReply: "draft_reply@v1",
+} as const;
+
+export type PromptId = keyof typeof PROMPT_VERSIONS;
+
 // Convert raw messages from Service A into the slimmer shape we send to the LLM.
 export function toSummaryMessages(raw: MessageRecord[]): SummaryRequestMessage[] {
   return raw
@@ -59,6 +78,18 @@ export function toSummaryMessages(raw: MessageRecord[]): SummaryRequestMessage[]
     }));
 }
 
+export const dailyStateSchema = z
+  .object({
+    mood: z.enum(["mostly_positive", "mixed", "mostly_negative", "flat", "unknown"]),
+    energyLevel: z.number(),
+    stressLevel: z.number(),
+    dominantConcerns: z.array(z.string()),
+    selfTalkTone: z.array(z.string()),
+    copingPatterns: z.array(z.string()),
+    notableMoments: z.array(z.object({ ts: z.number(), summary: z.string() }).passthrough()),
+  })
+  .passthrough();
+
 export function buildDailyStatePrompt(params: { date: string; messages: MessageRecord[] }) {
   const { date, messages } = params;
 
@@ -133,9 +164,29 @@ Return ONLY the JSON object, no markdown.
       { role: "system" as const, content: system },
       { role: "user" as const, content: user },
     ],
+    schema: dailyStateSchema,
+    promptVersion: PROMPT_VERSIONS.dailyState,
   };
 }
 
+export const heatTriageSchema = z
+  .object({
+    results: z.array(
+      z
+        .object({
+          chatId: z.string(),
+          heatTier: z.enum(["LOW", "MED", "HIGH"]),
+          heatScore: z.number(),
+          signals: z.array(z.string()),
+          why: z.string(),
+          evidenceMessageId: z.string().nullable().optional(),
+          evidenceText: z.string().nullable().optional(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
 export function buildHeatTriagePrompt(chats: HeatTriageChatSlice[]): ChatCompletionRequest {
   const system = `You are a triage assistant. Your job is to route which chats deserve deeper backfill based on intimacy/relationship heat. Return strict JSON only. Do not hallucinate; if uncertain, choose LOW.`.trim();
 
@@ -182,9 +233,26 @@ ${chatSections}
       { role: "system", content: system },
       { role: "user", content: user },
     ],
+    schema: heatTriageSchema,
+    promptVersion: PROMPT_VERSIONS.heatTriage,
   };
 }
 
+export const orchestratorHeatSchema = z
+  .object({
+    results: z.array(
+      z
+        .object({
+          chatId: z.string(),
+          heatTier: z.enum(["LOW", "MED", "HIGH"]),
+          heatScore: z.number(),
+          reasons: z.array(z.string()).optional(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
 export function buildOrchestratorHeatPrompt(chats: OrchestratorHeatChatSlice[]): ChatCompletionRequest {
   const system = `You classify relationship intimacy / emotional heat from short chat snippets. Return JSON only.`.trim();
 
@@ -230,9 +298,33 @@ ${chatSections}
       { role: "system", content: system },
       { role: "user", content: user },
     ],
+    schema: orchestratorHeatSchema,
+    promptVersion: PROMPT_VERSIONS.orchestratorHeat,
   };
 }
 
+export const signalsDigestSchema = z
+  .object({
+    watchlist: z
+      .array(
+        z
+          .object({
+            chatId: z.string(),
+            watchScore: z.number(),
+            direction: z.enum(["self", "other", "mutual"]),
+            tags: z.array(z.string()),
+            summary: z.string(),
+            evidence: z.array(z.string()),
+            nextAction: z.string(),
+            confidence: z.number(),
+          })
+          .passthrough()
+      )
+      .default([]),
+    globalPatterns: z.object({ notes: z.array(z.string()) }).passthrough().optional(),
+  })
+  .passthrough();
+
 export function buildSignalsDigestPrompt(opts: { windowHours: number; generatedAtTs: number; chats: SignalsChat[] }): ChatCompletionRequest {
   const { windowHours, generatedAtTs, chats } = opts;
   const system = `You are a cautious safety/relationship signals triager. Be conservative. Return JSON only.`.trim();
@@ -279,9 +371,44 @@ ${chatLines}
       { role: "system", content: system },
       { role: "user", content: user },
     ],
+    schema: signalsDigestSchema,
+    promptVersion: PROMPT_VERSIONS.signalsDigest,
   };
 }
 
+export const SIGNAL_EVENT_TYPES = [
+  "sexual_flirt",
+  "secrecy_concealment",
+  "pressure_coercion",
+  "triangulation_undermining",
+  "meetup_plan",
+  "money_transactional",
+  "conflict_threat_abuse",
+  "intimacy_confession",
+] as const;
+
+// "No signal" replies often omit counts/events entirely; default them rather than failing the run.
+// ts may come back as an ISO string; the route re-derives it from the input window when invalid.
+export const signalsEventsSchema = z
+  .object({
+    counts: z.record(z.string(), z.number()).default({}),
+    events: z
+      .array(
+        z
+          .object({
+            type: z.enum(SIGNAL_EVENT_TYPES),
+            chatId: z.string(),
+            ts: z.union([z.number(), z.string()]).nullable().optional(),
+            direction: z.enum(["incoming", "outgoing", "mutual"]).optional(),
+            evidence: z.array(z.string()).default([]),
+            confidence: z.number().optional(),
+          })
+          .passthrough()
+      )
+      .default([]),
+  })
+  .passthrough();
+
 export function buildSignalsEventsPrompt(opts: {
   windowHours: number;
   generatedAtTs: number;
@@ -344,10 +471,32 @@ ${chatLines}
       { role: "system", content: system },
       { role: "user", content: user },
     ],
+    schema: signalsEventsSchema,
+    promptVersion: PROMPT_VERSIONS.signalsEvents,
   };
 }
 
 
+export const summarySchema = z
+  .object({
+    narrativeSummary: z.string(),
+    keyPeople: z.array(z.string()),
+    keyTopics: z.array(z.string()),
+    openLoops: z.array(
+      z
+        .object({
+          messageId: z.string(),
+          chatId: z.string(),
+          who: z.string(),
+          what: z.string(),
+          when: z.string().nullable().optional(),
+          category: z.enum(["promise", "follow_up", "question", "time_sensitive"]),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
 export function buildSummaryPrompt(messages: SummaryRequestMessage[]) {
   const system = `
 You are an assistant that analyses WhatsApp conversations and returns structured JSON.
@@ -429,9 +578,30 @@ Return ONLY a JSON object, no markdown.
       { role: "system" as const, content: system },
       { role: "user" as const, content: user },
     ],
+    schema: summarySchema,
+    promptVersion: PROMPT_VERSIONS.summary,
   };
 }
 
+export const openLoopsSchema = z
+  .object({
+    openLoops: z.array(
+      z
+        .object({
+          what: z.string().optional(),
+          summary: z.string().optional(),
+          when: z.string().nullable().optional(),
+          category: z.enum(["promise", "follow_up", "question", "time_sensitive"]).optional(),
+          status: z.enum(["open", "done"]).optional(),
+          urgency: z.enum(["low", "moderate", "high"]).optional(),
+          importance: z.number().optional(),
+          confidence: z.number().optional(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
 export function buildOpenLoopsPrompt(messages: SummaryRequestMessage[]) {
   const system = `
 EA_POSTIT_OPEN_LOOPS_V1 — YOU ARE AN ELITE EXECUTIVE ASSISTANT
@@ -500,9 +670,41 @@ Return ONLY the JSON object, no markdown.
       { role: "system" as const, content: system },
       { role: "user" as const, content: user },
     ],
+    schema: openLoopsSchema,
+    promptVersion: PROMPT_VERSIONS.openLoops,
   };
 }
 
+// Deliberately looser than the prompt: sanitizeEAResult accepts the aliases (what, category, messageId), nulls and
+// unknown types and drops bad loops one at a time, so one malformed loop mustn't fail (or repair) the whole chat.
+export const eaOpenLoopsV1Schema = z
+  .object({
+    openLoops: z.array(
+      z
+        .object({
+          type: z.string().nullable().optional(),
+          category: z.string().nullable().optional(),
+          summary: z.string().nullable().optional(),
+          what: z.string().nullable().optional(),
+          status: z.string().nullable().optional(),
+          when: z.string().nullable().optional(),
+          whenDate: z.string().nullable().optional(),
+          hasTime: z.boolean().nullable().optional(),
+          whenOptions: z.array(z.any()).nullable().optional(),
+          confidence: z.number().nullable().optional(),
+          importance: z.number().nullable().optional(),
+          urgency: z.enum(["low", "moderate", "medium", "high"]).nullable().optional(),
+          evidenceMessageId: z.string().nullable().optional(),
+          messageId: z.string().nullable().optional(),
+          evidenceText: z.string().nullable().optional(),
+          recurring: z.boolean().nullable().optional(),
+        })
+        .passthrough()
+    ),
+    notes: z.array(z.string()).nullable().optional(),
+  })
+  .passthrough();
+
 export function buildEAOpenLoopsV1Prompt(input: {
   chatId: string;
   displayName: string | null;
@@ -513,7 +715,14 @@ export function buildEAOpenLoopsV1Prompt(input: {
   newMessages?: SummaryRequestMessage[];
   existingOpenLoops?: any[];
   ownerPerspective?: "me";
-}) {
+  // learned from the user's complete/dismiss actions in this chat (loopFeedbackService)
+  userFeedback?: {
+    completed: { type: string | null; summary: string }[];
+    dismissed: { type: string | null; summary: string }[];
+    suppressedIntents: string[];
+  } | null;
+}, opts: { askRecurring?: boolean } = {}) {
+  const askRecurring = opts.askRecurring ?? true;
   const system = `
 EA_OPEN_LOOPS_V1 — YOU ARE AN ELITE EXECUTIVE ASSISTANT
 
@@ -534,7 +743,7 @@ Return ONLY JSON:
     "hasTime"?: boolean;
     "whenOptions"?: string[];
     "status": "open" | "done";
-    "blocked"?: boolean;
+    "blocked"?: boolean;${askRecurring ? `\n    "recurring"?: boolean; // true only for a standing commitment that repeats (rent, a weekly call)` : ""}
     "confidence": number; // 0..1
     "importance": number; // 1..10
     "urgency": "low" | "moderate" | "high";
@@ -554,13 +763,26 @@ Return ONLY JSON:
     })
     .join("\n");
 
+  const fb = input.userFeedback;
+  const feedbackBlock =
+    fb && (fb.completed.length || fb.dismissed.length || fb.suppressedIntents.length)
+      ? `
+User feedback on earlier loops from this chat (follow it):
+${[
+  ...fb.completed.map((e) => `- KEPT (user completed it): [${e.type ?? "todo"}] ${e.summary}`),
+  ...fb.dismissed.map((e) => `- NOT WANTED (user dismissed it): [${e.type ?? "todo"}] ${e.summary}`),
+  ...(fb.suppressedIntents.length ? [`- Never emit these intents for this chat: ${fb.suppressedIntents.join(", ")}`] : []),
+].join("\n")}
+`
+      : "";
+
   const user = `
 Chat metadata:
 - chatId: ${input.chatId}
 - displayName: ${input.displayName ?? "unknown"}
 - isGroup: ${input.isGroup}
 - ownerPerspective: ${input.ownerPerspective ?? "me"} (only capture obligations for this owner)
-
+${feedbackBlock}
 Prior open loops for this chat (latest state):
 ${JSON.stringify(input.priorOpenLoops ?? [], null, 2)}
 
@@ -607,9 +829,21 @@ Return JSON only.
       { role: "system" as const, content: system },
       { role: "user" as const, content: user },
     ],
+    schema: eaOpenLoopsV1Schema,
+    promptVersion: PROMPT_VERSIONS.eaOpenLoops,
   };
 }
 
+export const relationshipSchema = z
+  .object({
+    chatId: z.string().optional(),
+    relationshipType: z.string(),
+    closeness: z.enum(["low", "medium", "high", "very_high"]),
+    toneDescriptors: z.array(z.string()),
+    overallSummary: z.string(),
+  })
+  .passthrough();
+
 export function buildRelationshipPrompt(
   messages: SummaryRequestMessage[],
   chatId: string,
@@ -756,9 +990,28 @@ Now produce the RelationshipSummary JSON. Return ONLY the JSON object, no markdo
       { role: "system" as const, content: system },
       { role: "user" as const, content: user },
     ],
+    schema: relationshipSchema,
+    promptVersion: PROMPT_VERSIONS.relationship,
   };
 }
 
+export const intelFactsSchema = z
+  .object({
+    facts: z.array(
+      z
+        .object({
+          type: z.enum(["EVENT", "EMOTION_CONCERN", "RELATIONSHIP_DYNAMIC"]),
+          summary: z.string(),
+          evidenceMessageId: z.string(),
+          evidenceText: z.string(),
+          attributedTo: z.enum(["ME", "OTHER", "UNKNOWN"]).optional(),
+          signalScore: z.number().optional(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
 export function buildIntelFactsPrompt(params: {
   chatId: string;
   messages: SummaryRequestMessage[];
@@ -815,9 +1068,103 @@ Return JSON only:
       { role: "system" as const, content: system },
       { role: "user" as const, content: user },
     ],
+    schema: intelFactsSchema,
+    promptVersion: PROMPT_VERSIONS.intelFacts,
+  };
+}
+
+export const draftReplySchema = z
+  .object({
+    language: z.string().optional(),
+    drafts: z.array(
+      z
+        .object({
+          text: z.string(),
+          tone: z.string(),
+          rationale: z.string().optional(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export type DraftReplyOutput = z.infer<typeof draftReplySchema>;
+
+export function buildDraftReplyPrompt(input: {
+  chatId: string;
+  displayName: string;
+  isGroup: boolean;
+  loop: { summary: string; type: string; taskGoal?: string | null; evidenceMessageId?: string | null; evidenceText?: string | null };
+  messages: SummaryRequestMessage[];
+  userStyle?: { overallTone?: string[]; typicalLength?: string; emojiUsage?: string; languages?: string[] } | null;
+  relationship?: { overallSummary?: string | null; keyTopics?: string[] } | null;
+}): ChatCompletionRequest {
+  const system = `
+You draft WhatsApp replies on behalf of the user ("ME") for one open loop they still owe a response on.
+
+Rules:
+- Write 2-3 distinct candidate replies the user could send as-is, each with a short tone label (e.g. "warm", "brief", "direct", "playful", "apologetic").
+- Reply in the language the chat is actually using around the evidence message (not necessarily English). Set "language" to its ISO 639-1 code.
+- Match the user's own style: message length, emoji usage, tone. Sound like the user, not an assistant.
+- Address the open loop directly (answer the question / make the decision / confirm the plan). Do not invent facts, dates, prices or commitments that aren't in the chat; leave a placeholder like [time] if a detail is needed.
+- No greetings-only or filler drafts; no sign-offs with the user's name.
+- Return JSON only: {"language":"en","drafts":[{"text":"...","tone":"warm","rationale":"one short line"}]}
+`.trim();
+
+  const msgLines = input.messages
+    .map((m) => `${m.id === input.loop.evidenceMessageId ? ">> " : ""}[${new Date(m.ts).toISOString()}] ${m.fromMe ? "ME" : m.displayName ?? input.displayName}: ${m.body}`)
+    .join("\n");
+
+  const user = `
+Chat: ${input.displayName} (${input.isGroup ? "group" : "1:1"})
+Open loop (${input.loop.type}): ${input.loop.summary}${input.loop.taskGoal ? `\nTask goal: ${input.loop.taskGoal}` : ""}
+${input.loop.evidenceText ? `Evidence: "${input.loop.evidenceText}"` : ""}
+
+User style: ${input.userStyle ? JSON.stringify(input.userStyle) : "unknown (keep it natural and concise)"}
+Relationship: ${input.relationship?.overallSummary ?? "unknown"}${input.relationship?.keyTopics?.length ? `\nKey topics: ${input.relationship.keyTopics.join(", ")}` : ""}
+
+Recent messages (oldest first; ">>" marks the message that opened the loop):
+${msgLines}
+`.trim();
+
+  return {
+    messages: [
+      { role: "system" as const, content: system },
+      { role: "user" as const, content: user },
+    ],
+    schema: draftReplySchema,
+    promptVersion: PROMPT_VERSIONS.draftReply,
   };
 }
 
+export type EAOpenLoopsPromptInput = Parameters<typeof buildEAOpenLoopsV1Prompt>[0];
+export type IntelFactsPromptInput = Parameters<typeof buildIntelFactsPrompt>[0];
+
+// Builders selectable by version id for side-by-side runs (POST /debug/prompts/compare).
+// Keep the outgoing builder here under its old id when bumping a version so the two can be compared.
+export const EA_OPEN_LOOPS_PROMPT_VARIANTS: Record<string, (input: EAOpenLoopsPromptInput) => ChatCompletionRequest> = {
+  [PROMPT_VERSIONS.eaOpenLoops]: buildEAOpenLoopsV1Prompt,
+  // v2 = same builder without the "recurring" flag; v1 also without the user-feedback examples
+  "ea_open_loops@v2": (input) => ({ ...buildEAOpenLoopsV1Prompt(input, { askRecurring: false }), promptVersion: "ea_open_loops@v2" }),
+  "ea_open_loops@v1": (input) => ({ ...buildEAOpenLoopsV1Prompt({ ...input, userFeedback: null }, { askRecurring: false }), promptVersion: "ea_open_loops@v1" }),
+};
+
+export const INTEL_FACTS_PROMPT_VARIANTS: Record<string, (input: IntelFactsPromptInput) => ChatCompletionRequest> = {
+  [PROMPT_VERSIONS.intelFacts]: buildIntelFactsPrompt,
+};
+
+// Validated LLM output shapes (callLLM returns these when given the builder's schema)
+export type DailyStateOutput = z.infer<typeof dailyStateSchema>;
+export type HeatTriageOutput = z.infer<typeof heatTriageSchema>;
+export type OrchestratorHeatOutput = z.infer<typeof orchestratorHeatSchema>;
+export type SignalsDigestOutput = z.infer<typeof signalsDigestSchema>;
+export type SignalsEventsOutput = z.infer<typeof signalsEventsSchema>;
+export type SummaryOutput = z.infer<typeof summarySchema>;
+export type OpenLoopsOutput = z.infer<typeof openLoopsSchema>;
+export type EAOpenLoopsV1Output = z.infer<typeof eaOpenLoopsV1Schema>;
+export type RelationshipOutput = z.infer<typeof relationshipSchema>;
+export type IntelFactsOutput = z.infer<typeof intelFactsSchema>;
+
 // Re-export types if you were using them from here previously
 export type {
   ConversationSummary,
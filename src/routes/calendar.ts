@@ -0,0 +1,43 @@
+import crypto from "node:crypto";
+import { Router } from "express";
+import { buildOpenLoopsCalendar } from "../services/openLoopsCalendarService.js";
+import { isValidTimeZone, userTimeZone } from "../utils/when.js";
+
+// Calendar apps can't send our Bearer header, so the feed is authenticated with its own token
+// (?token=... in the subscription URL) and mounted ahead of the API-key middleware.
+export const calendarRouter = Router();
+
+const FEED_TOKEN = process.env.OPEN_LOOPS_CALENDAR_TOKEN ?? "";
+const LANES = ["now", "later", "backlog"] as const;
+
+function tokenMatches(given: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(FEED_TOKEN);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// GET /open-loops/calendar.ics?token=...&tz=Europe/Madrid&lanes=now,later
+calendarRouter.get("/open-loops/calendar.ics", async (req, res) => {
+  if (!FEED_TOKEN) return res.status(503).json({ error: "CALENDAR_DISABLED" });
+  const token = String(req.query.token ?? "");
+  if (!token || !tokenMatches(token)) return res.status(401).json({ error: "Unauthorized" });
+
+  const tz = (req.query.tz as string | undefined) ?? userTimeZone;
+  if (!isValidTimeZone(tz)) return res.status(400).json({ error: "tz must be an IANA time zone, e.g. Europe/London" });
+  const lanes = String(req.query.lanes ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  const badLane = lanes.find((l) => !(LANES as readonly string[]).includes(l));
+  if (badLane) return res.status(400).json({ error: `Unknown lane: ${badLane}` });
+
+  try {
+    const { ics } = await buildOpenLoopsCalendar({ tz, lanes: lanes as (typeof LANES)[number][] });
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", 'inline; filename="open-loops.ics"');
+    res.send(ics);
+  } catch (err: any) {
+    console.error("Error in /open-loops/calendar.ics:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to build calendar" });
+  }
+});
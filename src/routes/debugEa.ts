@@ -1,5 +1,9 @@
 import { Router } from "express";
 import { readLatestRun, summarizeRuns } from "../stores/eaDebugRunsStore.js";
+import { startRun, finishRun, saveArtifact } from "../services/intelPersistence.js";
+import { compareEAOpenLoopsPromptVersions } from "../services/eaOpenLoopsService.js";
+import { compareIntelFactsPromptVersions } from "../services/intelService.js";
+import { EA_OPEN_LOOPS_PROMPT_VARIANTS, INTEL_FACTS_PROMPT_VARIANTS, PROMPT_VERSIONS } from "../prompts.js";
 
 export const debugEaRouter = Router();
 
@@ -29,3 +33,41 @@ debugEaRouter.get("/debug/ea/summary", async (req, res) => {
     res.status(500).json({ error: "Failed to load summary" });
   }
 });
+
+// Runs prompt version `a` and `b` over the same chat window (cache bypassed, nothing persisted
+// besides the run artifact) and returns the loops/facts each produced plus a structured diff.
+debugEaRouter.post("/debug/prompts/compare", async (req, res) => {
+  const chatId = (req.query.chatId as string | undefined) ?? "";
+  const kind = (req.query.kind as string | undefined) ?? "openLoops";
+  if (!chatId) return res.status(400).json({ error: "chatId required" });
+  if (kind !== "openLoops" && kind !== "facts") {
+    return res.status(400).json({ error: "kind must be openLoops or facts" });
+  }
+  const variants = kind === "openLoops" ? EA_OPEN_LOOPS_PROMPT_VARIANTS : INTEL_FACTS_PROMPT_VARIANTS;
+  const current = kind === "openLoops" ? PROMPT_VERSIONS.eaOpenLoops : PROMPT_VERSIONS.intelFacts;
+  const versionA = (req.query.a as string | undefined) ?? current;
+  const versionB = (req.query.b as string | undefined) ?? current;
+  const unknown = [versionA, versionB].filter((v) => !variants[v]);
+  if (unknown.length) {
+    return res.status(400).json({ error: "unknown prompt version", unknown, available: Object.keys(variants) });
+  }
+  const hoursParam = Number(req.query.hours ?? 48);
+  const hours = Number.isFinite(hoursParam) && hoursParam > 0 ? Math.min(hoursParam, 720) : 48;
+
+  const runId = await startRun({ kind: "prompt_compare_run", runType: "manual", params: req.query });
+  try {
+    const opts = { versionA, versionB, hours, runId };
+    const result =
+      kind === "openLoops"
+        ? await compareEAOpenLoopsPromptVersions(chatId, opts)
+        : await compareIntelFactsPromptVersions(chatId, opts);
+    const payload = { kind, ...result };
+    await saveArtifact({ runId, artifactType: "prompt_compare_result", chatId, payload });
+    await finishRun(runId, { status: "ok" });
+    res.json({ runId, ...payload });
+  } catch (err: any) {
+    await finishRun(runId, { status: "error", error: err?.message ?? String(err) });
+    console.error("Error in /debug/prompts/compare:", err);
+    res.status(500).json({ error: "Failed to compare prompt versions" });
+  }
+});
@@ -0,0 +1,41 @@
+import express, { Router } from "express";
+import { ingestBatchSchema, ingestConfig, ingestMessageBatch, verifyIngestSignature } from "../services/ingestService.js";
+
+// Mounted ahead of express.json() and the Bearer check: the HMAC is computed over the raw body,
+// and the signature replaces the API key for this route.
+export const ingestRouter = Router();
+
+ingestRouter.post(
+  "/ingest/messages",
+  express.raw({ type: "*/*", limit: process.env.INGEST_MAX_BYTES ?? "10mb" }),
+  async (req, res) => {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const check = verifyIngestSignature(rawBody, req.header("x-ingest-timestamp"), req.header("x-ingest-signature"));
+    if (!check.ok) {
+      const status = check.reasonCode === "INGEST_DISABLED" ? 503 : 401;
+      return res.status(status).json({ error: check.reasonCode });
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      return res.status(400).json({ error: "Body must be JSON" });
+    }
+    const parsed = ingestBatchSchema.safeParse(json);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid batch", issues: parsed.error.issues });
+    }
+    if (parsed.data.messages.length > ingestConfig.maxBatch) {
+      return res.status(413).json({ error: `Batch too large (max ${ingestConfig.maxBatch} messages)` });
+    }
+
+    try {
+      const result = await ingestMessageBatch(parsed.data);
+      res.json(result);
+    } catch (err: any) {
+      console.error("Error in /ingest/messages:", err);
+      res.status(500).json({ error: "Failed to ingest messages" });
+    }
+  }
+);
@@ -1,4 +1,4 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import fs from "fs";
 import path from "path";
 import { bootstrapIntel, recentIntelFacts } from "../services/intelService.js";
@@ -16,17 +16,26 @@ import {
 } from "../services/metricsDailyService.js";
 import { startRun, finishRun, saveArtifact, saveEvents, saveBackfillPosts, getLastBackfillPostedByChatIds } from "../services/intelPersistence.js";
 import { fetchRecentMessages, fetchChatMessagesBefore, fetchServiceStatus } from "../whatsappClient.js";
-import { callLLM } from "../llm.js";
-import { buildSignalsDigestPrompt, buildSignalsEventsPrompt, SignalsChat } from "../prompts.js";
+import { callLLM, LLMSchemaError } from "../llm.js";
+import { checkLlmBudget, summarizeBudget } from "../llmBudget.js";
+import {
+  buildSignalsDigestPrompt,
+  buildSignalsEventsPrompt,
+  SignalsChat,
+  SignalsDigestOutput,
+  SignalsEventsOutput,
+} from "../prompts.js";
 import { pool } from "../db.js";
 import { readOrchestratorState, buildSchedulerStatus } from "../services/orchestratorService.js";
 import { enqueueJob } from "../services/jobQueue.js";
-import { getChatState, upsertChatState } from "../services/chatPipelineState.js";
+import { getChatState, markChatsDirty, upsertChatState } from "../services/chatPipelineState.js";
 import { getRecentHighSignalChatIds } from "../services/intelPersistence.js";
 import { setBackfillTargets, fetchActiveChats } from "../whatsappClient.js";
 import { queueBackfillTargets, updateBackfillStatus } from "../services/backfillPersistence.js";
 import { saveMessages } from "../services/dataPersistence.js";
+import { getLlmUsageRollup } from "../services/llmUsagePersistence.js";
 import { getRecentMessagesSince, FlatMessage } from "../intel/messageStore.js";
+import { DateOrder, importWhatsAppExport, WhatsAppExportImportError } from "../services/whatsappExportImport.js";
 
 const MAX_BACKFILL_LIMIT = (() => {
   const n = Number(process.env.MAX_BACKFILL_LIMIT ?? 5000);
@@ -167,7 +176,7 @@ intelRouter.post("/intel/bootstrap", async (req, res) => {
     const limitPerChat = Math.min(Number(req.query.limitPerChat ?? 200) || 200, 2000);
     const includeGroups = String(req.query.includeGroups ?? "false").toLowerCase() === "true";
     const runType = (req.query.runType as string | undefined) ?? "manual";
-    const result = await bootstrapIntel({ hours, limitChats, limitPerChat, includeGroups, runType });
+    const result = await bootstrapIntel({ hours, limitChats, limitPerChat, includeGroups, runType, runId });
     await saveArtifact({ runId, artifactType: "bootstrap_result", payload: result });
     await finishRun(runId, { status: "ok" });
     res.json(result);
@@ -238,7 +247,7 @@ intelRouter.post("/intel/radar/run", async (req, res) => {
     const includeGroups = String(req.query.includeGroups ?? "false").toLowerCase() === "true";
     const runType = (req.query.runType as string | undefined) ?? "manual";
     const execute = String(req.query.execute ?? "false").toLowerCase() === "true";
-    const result = await runRadar({ limitChats, limitPerChat, includeGroups, runType, execute });
+    const result = await runRadar({ limitChats, limitPerChat, includeGroups, runType, execute, runId });
     await saveArtifact({ runId, artifactType: "heat_triage_result", payload: result });
     await finishRun(runId, { status: "ok" });
     res.json(result);
@@ -519,6 +528,19 @@ intelRouter.get("/intel/metrics/daily", async (req, res) => {
   }
 });
 
+intelRouter.get("/intel/llm/usage", async (req, res) => {
+  try {
+    const days = Math.min(Number(req.query.days ?? 7) || 7, 90);
+    const chatLimit = Math.min(Number(req.query.chatLimit ?? 50) || 50, 500);
+    const rollup = await getLlmUsageRollup(days, { chatLimit });
+    if (!rollup) return res.status(500).json({ error: "Failed to load LLM usage" });
+    res.json(rollup);
+  } catch (err: any) {
+    console.error("Error in /intel/llm/usage:", err);
+    res.status(500).json({ error: "Failed to load LLM usage" });
+  }
+});
+
 intelRouter.get("/intel/coverage/active", async (req, res) => {
   const runId = await startRun({
     kind: "coverage_active_run",
@@ -617,6 +639,14 @@ intelRouter.post("/intel/signals/run", async (req, res) => {
     const includeGroups = String(req.query.includeGroups ?? "false").toLowerCase() === "true";
     const runType = (req.query.runType as string | undefined) ?? "manual";
 
+    const budget = await checkLlmBudget("signals", { runId });
+    if (budget.action === "skip") {
+      const payload = { ok: true, skipped: true, reasonCode: budget.reasonCode, budget: summarizeBudget(budget), windowHours: hours };
+      await saveArtifact({ runId, artifactType: "signals_snapshot", payload });
+      await finishRun(runId, { status: "ok" });
+      return res.json(payload);
+    }
+
     const now = Date.now();
     const cutoffTs = now - hours * 60 * 60 * 1000;
     const recent = await getRecentMessagesSince(cutoffTs, 5000, includeGroups);
@@ -657,16 +687,21 @@ intelRouter.post("/intel/signals/run", async (req, res) => {
     }
 
     const prompt = buildSignalsDigestPrompt({ windowHours: hours, generatedAtTs: now, chats });
-    let llmResp: any;
+    let llmResp: SignalsDigestOutput;
     try {
-      llmResp = await callLLM<any>("signals", prompt);
+      llmResp = await callLLM<SignalsDigestOutput>("signals", prompt, { runId, model: budget.model });
     } catch (err) {
       await finishRun(runId, { status: "error", error: (err as any)?.message ?? String(err) });
       console.error("Error in /intel/signals/run LLM:", err);
       return res.status(500).json({ error: "Failed to run signals LLM" });
     }
 
-    const responsePayload = llmResp ?? {};
+    const responsePayload = {
+      ...llmResp,
+      reasonCode: budget.reasonCode,
+      budget: summarizeBudget(budget),
+      promptVersion: prompt.promptVersion,
+    };
     await saveArtifact({ runId, artifactType: "signals_snapshot", payload: responsePayload });
     await finishRun(runId, { status: "ok" });
     res.json(responsePayload);
@@ -694,6 +729,14 @@ intelRouter.post("/intel/signals/events/run", async (req, res) => {
     const runType = (req.query.runType as string | undefined) ?? "manual";
     const recentLimit = Math.min(Number(req.query.recentLimit ?? 4000) || 4000, 10000);
 
+    const budget = await checkLlmBudget("signals", { runId });
+    if (budget.action === "skip") {
+      const payload = { ok: true, skipped: true, reasonCode: budget.reasonCode, budget: summarizeBudget(budget), windowHours: hours };
+      await saveArtifact({ runId, artifactType: "signals_events_snapshot", payload });
+      await finishRun(runId, { status: "ok" });
+      return res.json(payload);
+    }
+
     const nowTs = Date.now();
     const cutoffTs = nowTs - hours * 60 * 60 * 1000;
     const recent = await getRecentMessagesSince(cutoffTs, recentLimit, includeGroups);
@@ -755,21 +798,23 @@ intelRouter.post("/intel/signals/events/run", async (req, res) => {
     }
 
     const prompt = buildSignalsEventsPrompt({ windowHours: hours, generatedAtTs: nowTs, maxEvents, chats });
-    let llmResp: any;
+    let llmResp: SignalsEventsOutput;
     try {
-      llmResp = await callLLM<any>("signals", prompt);
+      llmResp = await callLLM<SignalsEventsOutput>("signals", prompt, { runId, model: budget.model });
     } catch (err) {
+      if (err instanceof LLMSchemaError) {
+        await finishRun(runId, { status: "error", error: "signals_llm_invalid_json" });
+        return res.status(500).json({ error: "signals_llm_invalid_json", issues: err.issues });
+      }
       await finishRun(runId, { status: "error", error: (err as any)?.message ?? String(err) });
       console.error("Error in /intel/signals/events/run LLM:", err);
       return res.status(500).json({ error: "signals_llm_failed" });
     }
 
-    if (!llmResp || typeof llmResp !== "object" || !("counts" in llmResp) || !("events" in llmResp)) {
-      await finishRun(runId, { status: "error", error: "signals_llm_invalid_json" });
-      return res.status(500).json({ error: "signals_llm_invalid_json" });
-    }
-
-    const responsePayload = llmResp;
+    const responsePayload: Record<string, any> = llmResp;
+    responsePayload.reasonCode = budget.reasonCode;
+    responsePayload.budget = summarizeBudget(budget);
+    responsePayload.promptVersion = prompt.promptVersion;
     responsePayload.generatedAtTs = nowTs;
     responsePayload.windowHours = hours;
     const globalMaxTs = maxInputMsgTs ?? null;
@@ -927,6 +972,7 @@ intelRouter.post("/intel/watermarks/sync", async (req, res) => {
     let updated = 0;
     let enqueuedMetrics = 0;
     let enqueuedSignals = 0;
+    let dirtyMarked = 0;
     const hydrationMetrics: any[] = [];
 
     for (const chatId of candidates) {
@@ -952,6 +998,7 @@ intelRouter.post("/intel/watermarks/sync", async (req, res) => {
       const newestTs = Math.max(...messages.map((m) => m.ts));
       const oldestTs = Math.min(...messages.map((m) => m.ts));
       const state = await getChatState(chatId);
+      const prevNewest = Number(state?.newest_ts_seen_ms ?? 0) || 0;
       const prevOldest = Number(state?.oldest_ts_seen_ms ?? 0) || null;
       const prevSeen = Number(state?.seen_msg_count ?? 0) || 0;
       const newSeen = Math.max(prevSeen, messages.length);
@@ -967,6 +1014,11 @@ intelRouter.post("/intel/watermarks/sync", async (req, res) => {
         last_run_type: runType,
       });
       updated++;
+      // New messages at the head of the chat -> debounced per-chat open loops refresh
+      if (inserted > 0 && newestTs > prevNewest) {
+        const fresh = messages.filter((m) => m.ts > prevNewest);
+        dirtyMarked += await markChatsDirty([{ chatId, newestMsgTs: newestTs, oldestMsgTs: Math.min(...fresh.map((m) => m.ts)), count: fresh.length }], now);
+      }
       try {
         await updateBackfillStatus(chatId, "completed");
       } catch (err) {
@@ -983,7 +1035,7 @@ intelRouter.post("/intel/watermarks/sync", async (req, res) => {
       }
     }
 
-    const payload = { now, activeDays, recentLimit, maxChats, checked, updated, enqueuedMetrics, enqueuedSignals, hydrationMetrics };
+    const payload = { now, activeDays, recentLimit, maxChats, checked, updated, enqueuedMetrics, enqueuedSignals, dirtyMarked, hydrationMetrics };
     await saveArtifact({ runId, artifactType: "watermarks_sync_result", payload });
     await finishRun(runId, { status: "ok" });
     res.json(payload);
@@ -1159,6 +1211,58 @@ intelRouter.post("/intel/backfill/chat/:chatId", async (req, res) => {
   }
 });
 
+// Body is the raw export: the .txt transcript or the .zip WhatsApp shares (transcript + media).
+const exportBodyParser = express.raw({
+  type: ["text/plain", "application/zip", "application/x-zip-compressed", "application/octet-stream"],
+  limit: process.env.WHATSAPP_EXPORT_MAX_BYTES ?? "50mb",
+});
+
+intelRouter.post("/intel/import/whatsapp-export", exportBodyParser, async (req, res) => {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: "Send the export as the raw request body (text/plain or application/zip)" });
+  }
+  const dateOrderParam = (req.query.dateOrder as string | undefined)?.toUpperCase();
+  if (dateOrderParam && !["DMY", "MDY", "YMD"].includes(dateOrderParam)) {
+    return res.status(400).json({ error: "dateOrder must be DMY, MDY or YMD" });
+  }
+  const tz = (req.query.tz as string | undefined) ?? null;
+  if (tz) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    } catch {
+      return res.status(400).json({ error: "tz must be an IANA time zone, e.g. Europe/London" });
+    }
+  }
+  const ownerNames = String(req.query.owner ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const dryRun = ["1", "true"].includes(String(req.query.dryRun ?? "").toLowerCase());
+
+  const runId = await startRun({ kind: "whatsapp_export_import_run", runType: "manual", params: req.query });
+  try {
+    const result = await importWhatsAppExport(req.body, {
+      chatId: (req.query.chatId as string | undefined) ?? null,
+      chatName: (req.query.chatName as string | undefined) ?? null,
+      fileName: (req.query.fileName as string | undefined) ?? null,
+      ownerNames,
+      dateOrder: (dateOrderParam as DateOrder | undefined) ?? null,
+      tz,
+      dryRun,
+    });
+    await saveArtifact({ runId, artifactType: "whatsapp_export_import_result", chatId: result.chatId, payload: result });
+    await finishRun(runId, { status: "ok" });
+    res.json({ runId, ...result });
+  } catch (err: any) {
+    await finishRun(runId, { status: "error", error: err?.message ?? String(err) });
+    if (err instanceof WhatsAppExportImportError) {
+      return res.status(422).json({ error: err.reasonCode, message: err.message, ...(err.details ?? {}) });
+    }
+    console.error("Error in /intel/import/whatsapp-export:", err);
+    res.status(500).json({ error: "Failed to import WhatsApp export" });
+  }
+});
+
 intelRouter.get("/intel/audit", async (req, res) => {
   const nowTs = Date.now();
   const hours = Math.min(Number(req.query.hours ?? 24) || 24, 168);
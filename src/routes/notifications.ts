@@ -0,0 +1,63 @@
+import { Router } from "express";
+import {
+  describeNotificationChannels,
+  isQuietHour,
+  listNotificationDeliveries,
+  notifyConfig,
+  runNotificationDispatch,
+  sendTestNotification,
+} from "../services/notificationService.js";
+import { isNotificationChannelId } from "../services/notificationChannels.js";
+import { startRun, saveArtifact, finishRun } from "../services/intelPersistence.js";
+
+export const notificationsRouter = Router();
+
+// GET /notifications/deliveries?channel=smtp&status=failed&limit=50
+notificationsRouter.get("/notifications/deliveries", async (req, res) => {
+  const limit = Math.min(500, Math.max(1, Number(req.query.limit ?? 50) || 50));
+  const channel = typeof req.query.channel === "string" && req.query.channel ? req.query.channel : undefined;
+  const status = typeof req.query.status === "string" && req.query.status ? req.query.status : undefined;
+  try {
+    const deliveries = await listNotificationDeliveries({ channel, status, limit });
+    res.json({
+      enabled: notifyConfig.enabled,
+      quietNow: isQuietHour(Date.now()),
+      channels: describeNotificationChannels(),
+      deliveries,
+    });
+  } catch (err: any) {
+    console.error("Error in /notifications/deliveries:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to list deliveries" });
+  }
+});
+
+// POST /notifications/test?channel=webhook
+notificationsRouter.post("/notifications/test", async (req, res) => {
+  const channel = String(req.query.channel ?? req.body?.channel ?? "");
+  if (!isNotificationChannelId(channel)) return res.status(400).json({ error: "channel must be one of webhook, smtp, whatsapp" });
+  try {
+    const outcome = await sendTestNotification(channel);
+    if (outcome.reason === "not_configured") return res.status(409).json({ error: "CHANNEL_NOT_CONFIGURED", message: `${channel} is not configured` });
+    res.status(outcome.status === "sent" ? 200 : 502).json(outcome);
+  } catch (err: any) {
+    console.error("Error in /notifications/test:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to send test notification" });
+  }
+});
+
+// POST /notifications/run?dryRun=1&force=1 — one dispatch pass outside the scheduler (force ignores quiet hours).
+notificationsRouter.post("/notifications/run", async (req, res) => {
+  const dryRun = ["1", "true"].includes(String(req.query.dryRun ?? "").toLowerCase());
+  const force = ["1", "true"].includes(String(req.query.force ?? "").toLowerCase());
+  const runId = await startRun({ kind: "notifications_run", runType: "manual", params: { dryRun, force } });
+  try {
+    const result = await runNotificationDispatch(Date.now(), { dryRun, force });
+    await saveArtifact({ runId, artifactType: "notifications_dispatch_result", payload: result });
+    await finishRun(runId, { status: "ok" });
+    res.json({ runId, dryRun, ...result });
+  } catch (err: any) {
+    await finishRun(runId, { status: "error", error: err?.message ?? String(err) });
+    console.error("Error in /notifications/run:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to run notifications" });
+  }
+});
@@ -0,0 +1,113 @@
+import { Router } from "express";
+import { z } from "zod";
+import {
+  createLaneRule,
+  deleteLaneRule,
+  getLaneRule,
+  laneRuleInputSchema,
+  laneRulePatchSchema,
+  listChatTags,
+  listLaneRules,
+  setChatTags,
+  updateLaneRule,
+} from "../services/laneRulesService.js";
+
+export const openLoopRulesRouter = Router();
+
+const ruleIdSchema = z
+  .string()
+  .transform((v) => Number(v))
+  .refine((n) => Number.isInteger(n) && n > 0, { message: "rule id must be a positive integer" });
+
+const chatTagsSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(50)).max(50),
+});
+
+// GET /open-loops/rules – all lane rules in evaluation order
+openLoopRulesRouter.get("/open-loops/rules", async (_req, res) => {
+  try {
+    res.json({ rules: await listLaneRules() });
+  } catch (err: any) {
+    console.error("Error in /open-loops/rules:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to load lane rules" });
+  }
+});
+
+// POST /open-loops/rules  { name, lane, priority?, enabled?, conditions? }
+openLoopRulesRouter.post("/open-loops/rules", async (req, res) => {
+  try {
+    const parsed = laneRuleInputSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const rule = await createLaneRule(parsed.data);
+    res.status(201).json({ rule });
+  } catch (err: any) {
+    console.error("Error in /open-loops/rules:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to create lane rule" });
+  }
+});
+
+// GET /open-loops/chat-tags?chatId=...
+openLoopRulesRouter.get("/open-loops/chat-tags", async (req, res) => {
+  try {
+    const chatId = typeof req.query.chatId === "string" && req.query.chatId ? req.query.chatId : null;
+    res.json({ chats: await listChatTags(chatId) });
+  } catch (err: any) {
+    console.error("Error in /open-loops/chat-tags:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to load chat tags" });
+  }
+});
+
+// PUT /open-loops/chat-tags/:chatId  { tags: ["work"] } – replaces the chat's tags
+openLoopRulesRouter.put("/open-loops/chat-tags/:chatId", async (req, res) => {
+  try {
+    const parsed = chatTagsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const tags = await setChatTags(req.params.chatId, parsed.data.tags);
+    res.json({ chatId: req.params.chatId, tags });
+  } catch (err: any) {
+    console.error("Error in /open-loops/chat-tags/:chatId:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to update chat tags" });
+  }
+});
+
+openLoopRulesRouter.get("/open-loops/rules/:ruleId", async (req, res) => {
+  try {
+    const id = ruleIdSchema.safeParse(req.params.ruleId);
+    if (!id.success) return res.status(400).json({ error: id.error.message });
+    const rule = await getLaneRule(id.data);
+    if (!rule) return res.status(404).json({ error: "Lane rule not found" });
+    res.json({ rule });
+  } catch (err: any) {
+    console.error("Error in /open-loops/rules/:ruleId:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to load lane rule" });
+  }
+});
+
+// PATCH /open-loops/rules/:ruleId – partial update; `conditions` is replaced as a whole
+openLoopRulesRouter.patch("/open-loops/rules/:ruleId", async (req, res) => {
+  try {
+    const id = ruleIdSchema.safeParse(req.params.ruleId);
+    if (!id.success) return res.status(400).json({ error: id.error.message });
+    const parsed = laneRulePatchSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const rule = await updateLaneRule(id.data, parsed.data);
+    if (!rule) return res.status(404).json({ error: "Lane rule not found" });
+    res.json({ rule });
+  } catch (err: any) {
+    console.error("Error in /open-loops/rules/:ruleId:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to update lane rule" });
+  }
+});
+
+openLoopRulesRouter.delete("/open-loops/rules/:ruleId", async (req, res) => {
+  try {
+    const id = ruleIdSchema.safeParse(req.params.ruleId);
+    if (!id.success) return res.status(400).json({ error: id.error.message });
+    const deleted = await deleteLaneRule(id.data);
+    if (!deleted) return res.status(404).json({ error: "Lane rule not found" });
+    res.json({ ok: true });
+  } catch (err: any) {
+    console.error("Error in /open-loops/rules/:ruleId:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to delete lane rule" });
+  }
+});
@@ -1,8 +1,16 @@
 import { Router } from "express";
 import { z } from "zod";
 import { ActiveOpenLoop, getCuratedPlateOpenLoops } from "../services/openLoopsV2Service.js";
-import { updateLoopStatus } from "../services/openLoopsPersistence.js";
+import { listLoopEvents, updateLoopStatus } from "../services/openLoopsPersistence.js";
 import { pool } from "../db.js";
+import { DraftReplyError, generateDraftReplies, listDraftReplies, markDraftUsed } from "../services/draftReplyService.js";
+import { startRun, saveArtifact, finishRun } from "../services/intelPersistence.js";
+import { feedbackConfig, getFeedbackStats, recordLoopAction } from "../services/loopFeedbackService.js";
+import { detachLoopFromCluster, getLoopCluster } from "../services/loopClusterService.js";
+import { getLoopGraph, resolveLoopDependencies } from "../services/loopDependencyService.js";
+import { OPEN_LOOP_SORTS, OpenLoopQueryError, queryOpenLoops } from "../services/openLoopsQueryService.js";
+import { applyBulkAction, bulkActionSchema, bulkConfig, LoopBulkError, undoBulkAction } from "../services/loopBulkService.js";
+import { createUserLoop, editLoop, LoopAuthoringError, loopEditSchema, userLoopInputSchema } from "../services/loopAuthoringService.js";
 
 export const openLoopsRouter = Router();
 
@@ -13,6 +21,45 @@ const daysSchema = z
     message: "days must be between 1 and 60",
   });
 
+const csvSchema = z
+  .string()
+  .transform((v) => v.split(",").map((s) => s.trim()).filter(Boolean))
+  .pipe(z.array(z.string()).min(1));
+
+const flagSchema = z.enum(["1", "0", "true", "false"]).transform((v) => v === "1" || v === "true");
+
+const importanceSchema = z
+  .string()
+  .transform((v) => Number(v))
+  .refine((n) => Number.isInteger(n) && n >= 1 && n <= 10, { message: "importance must be an integer between 1 and 10" });
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "dates must be YYYY-MM-DD");
+
+const searchQuerySchema = z.object({
+  chatId: csvSchema.optional(),
+  type: csvSchema.pipe(z.array(z.enum(["reply_needed", "decision_needed", "todo", "event_date", "info_to_save", "follow_up"]))).optional(),
+  status: csvSchema.pipe(z.array(z.enum(["open", "done", "dismissed"]))).optional(),
+  urgency: csvSchema.pipe(z.array(z.enum(["low", "moderate", "high"]))).optional(),
+  lane: csvSchema.pipe(z.array(z.enum(["now", "later", "backlog"]))).optional(),
+  actor: z.string().min(1).optional(),
+  minImportance: importanceSchema.optional(),
+  maxImportance: importanceSchema.optional(),
+  dueFrom: dateSchema.optional(),
+  dueTo: dateSchema.optional(),
+  hasEvidence: flagSchema.optional(),
+  blocked: flagSchema.optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  includeClosed: flagSchema.optional(),
+  sort: z.enum(OPEN_LOOP_SORTS).optional(),
+  order: z.enum(["asc", "desc"]).optional(),
+  limit: z
+    .string()
+    .transform((v) => Number(v))
+    .refine((n) => Number.isInteger(n) && n > 0 && n <= 200, { message: "limit must be between 1 and 200" })
+    .optional(),
+  cursor: z.string().min(1).optional(),
+});
+
 async function resolveLoop(id: string): Promise<{ chatId: string; loopId: string } | null> {
   const res = await pool.query("SELECT chat_id, loop_id FROM open_loops WHERE loop_id = $1 LIMIT 1", [id]);
   const row = res.rows?.[0];
@@ -42,23 +89,99 @@ openLoopsRouter.get("/open-loops", async (req, res) => {
   }
 });
 
-// GET /open-loops/active
-// Return curated active loops without re-calling the LLM.
+// POST /open-loops { "chatId": "...", "summary": "...", "type"?: "todo", "whenDate"?: "YYYY-MM-DD", "importance"?: 5, "urgency"?: "moderate", "messageId"?: "..." }
+// A loop the LLM missed, written by the user. Stored with source "user" so EA runs never overwrite it.
+openLoopsRouter.post("/open-loops", async (req, res) => {
+  try {
+    const parsed = userLoopInputSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const loop = await createUserLoop(parsed.data);
+    res.status(201).json({ ok: true, loop });
+  } catch (err: any) {
+    if (err instanceof LoopAuthoringError) return res.status(err.status).json({ error: err.reasonCode, message: err.message });
+    console.error("Error in POST /open-loops:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to create open loop" });
+  }
+});
+
+// GET /open-loops/search?q=...&status=open,done&type=todo&sort=due&order=asc&limit=50&cursor=...
+// Straight query over open_loops: filters, full-text search on summary/evidence, sorting and keyset pagination
+// (pass nextCursor back as cursor). Closed/dismissed loops only with includeClosed=1 or an explicit status filter.
+openLoopsRouter.get("/open-loops/search", async (req, res) => {
+  try {
+    const parsed = searchQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const p = parsed.data;
+    const order = p.order ?? (p.sort === "due" ? "asc" : "desc");
+    const result = await queryOpenLoops({
+      chatIds: p.chatId,
+      types: p.type,
+      statuses: p.status,
+      urgencies: p.urgency,
+      lanes: p.lane,
+      actor: p.actor,
+      minImportance: p.minImportance,
+      maxImportance: p.maxImportance,
+      dueFrom: p.dueFrom,
+      dueTo: p.dueTo,
+      hasEvidence: p.hasEvidence,
+      blocked: p.blocked,
+      q: p.q,
+      includeClosed: p.includeClosed,
+      sort: p.sort ?? (p.q ? "relevance" : "lastSeen"),
+      order,
+      limit: p.limit ?? 50,
+      cursor: p.cursor,
+    });
+    res.json({
+      openLoops: result.openLoops,
+      nextCursor: result.nextCursor,
+      meta: { count: result.openLoops.length, sort: result.sort, order },
+    });
+  } catch (err: any) {
+    if (err instanceof OpenLoopQueryError) return res.status(400).json({ error: err.message });
+    console.error("Error in /open-loops/search:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to search open loops" });
+  }
+});
+
+// GET /open-loops/active?explain=1
+// Return curated active loops without re-calling the LLM. explain=1 adds each loop's priorityBreakdown
+// (per-factor value × weight) and the weights in use.
 openLoopsRouter.get("/open-loops/active", async (req, res) => {
   try {
     const lane = (req.query.lane as string | undefined) ?? "now";
-    const plate = await getCuratedPlateOpenLoops(7);
+    const explain = ["1", "true"].includes(String(req.query.explain ?? "").toLowerCase());
+    const plate = await getCuratedPlateOpenLoops(7, { explain });
     const filtered =
       lane === "later"
         ? plate.openLoops.filter((l) => l.lane === "later")
         : plate.openLoops.filter((l) => l.lane !== "later");
-    res.json({ openLoops: filtered });
+    res.json(explain ? { openLoops: filtered, scoreWeights: plate.meta?.scoreWeights } : { openLoops: filtered });
   } catch (err: any) {
     console.error("Error in /open-loops/active:", err?.message ?? err);
     res.status(500).json({ error: "Failed to load active open loops" });
   }
 });
 
+// PATCH /open-loops/:id { "summary"?, "type"?, "whenDate"?: "YYYY-MM-DD" | null, "importance"?, "urgency"? }
+// Edited fields are pinned: later EA refreshes of the chat keep the user's values.
+openLoopsRouter.patch("/open-loops/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const parsed = loopEditSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const resolved = await resolveLoop(id);
+    if (!resolved) return res.status(404).json({ error: "Open loop not found" });
+    const loop = await editLoop(resolved.chatId, resolved.loopId, parsed.data);
+    if (!loop) return res.status(404).json({ error: "Open loop not found" });
+    res.json({ ok: true, loop });
+  } catch (err: any) {
+    console.error("Error in PATCH /open-loops/:id:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to update open loop" });
+  }
+});
+
 // POST /open-loops/:id/complete
 openLoopsRouter.post("/open-loops/:id/complete", async (req, res) => {
   try {
@@ -66,6 +189,8 @@ openLoopsRouter.post("/open-loops/:id/complete", async (req, res) => {
     const resolved = await resolveLoop(id);
     if (!resolved) return res.status(404).json({ error: "Open loop not found" });
     await updateLoopStatus(resolved.chatId, resolved.loopId, { status: "done" });
+    await recordLoopAction(resolved.chatId, resolved.loopId, "complete");
+    await resolveLoopDependencies();
     res.json({ ok: true });
   } catch (err: any) {
     console.error("Error in /open-loops/:id/complete:", err?.message ?? err);
@@ -80,6 +205,8 @@ openLoopsRouter.post("/open-loops/:id/dismiss", async (req, res) => {
     const resolved = await resolveLoop(id);
     if (!resolved) return res.status(404).json({ error: "Open loop not found" });
     await updateLoopStatus(resolved.chatId, resolved.loopId, { status: "dismissed" });
+    await recordLoopAction(resolved.chatId, resolved.loopId, "dismiss");
+    await resolveLoopDependencies();
     res.json({ ok: true });
   } catch (err: any) {
     console.error("Error in /open-loops/:id/dismiss:", err?.message ?? err);
@@ -100,9 +227,193 @@ openLoopsRouter.post("/open-loops/:id/snooze", async (req, res) => {
     if (!resolved) return res.status(404).json({ error: "Open loop not found" });
     const snoozeUntil = Date.now() + parsed.data.hours * 60 * 60 * 1000;
     await updateLoopStatus(resolved.chatId, resolved.loopId, { snoozeUntil, status: undefined });
+    await recordLoopAction(resolved.chatId, resolved.loopId, "snooze");
     res.json({ ok: true, snoozeUntil });
   } catch (err: any) {
     console.error("Error in /open-loops/:id/snooze:", err?.message ?? err);
     res.status(500).json({ error: "Failed to update open loop" });
   }
 });
+
+// POST /open-loops/bulk { "action": "complete|dismiss|snooze|lane|note", "ids": [...], "hours"?, "lane"?, "note"? }
+// All-or-nothing; unknown ids fail the whole batch with 404. Returns an undoToken valid for OPEN_LOOPS_UNDO_WINDOW_MINUTES.
+openLoopsRouter.post("/open-loops/bulk", async (req, res) => {
+  try {
+    const parsed = bulkActionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const result = await applyBulkAction(parsed.data);
+    res.json({ ok: true, ...result, undoWindowMinutes: bulkConfig.undoWindowMinutes });
+  } catch (err: any) {
+    if (err instanceof LoopBulkError) return res.status(err.status).json({ error: err.reasonCode, message: err.message });
+    console.error("Error in /open-loops/bulk:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to apply bulk action" });
+  }
+});
+
+const undoSchema = z.object({
+  token: z.string().min(1),
+});
+
+// POST /open-loops/bulk/undo { "token": "..." }
+openLoopsRouter.post("/open-loops/bulk/undo", async (req, res) => {
+  try {
+    const parsed = undoSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const result = await undoBulkAction(parsed.data.token);
+    res.json({ ok: true, ...result });
+  } catch (err: any) {
+    if (err instanceof LoopBulkError) return res.status(err.status).json({ error: err.reasonCode, message: err.message });
+    console.error("Error in /open-loops/bulk/undo:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to undo bulk action" });
+  }
+});
+
+// GET /open-loops/feedback/stats?chatId=...&scope=chat|intent
+// Complete/dismiss/snooze counts per chat+intent (or per intent across chats) and what the sanitizer does with them.
+openLoopsRouter.get("/open-loops/feedback/stats", async (req, res) => {
+  try {
+    const chatId = typeof req.query.chatId === "string" && req.query.chatId ? req.query.chatId : null;
+    const byChat = req.query.scope !== "intent";
+    const stats = await getFeedbackStats({ chatId, byChat });
+    res.json({
+      enabled: feedbackConfig.enabled,
+      dismissThreshold: feedbackConfig.dismissThreshold,
+      boostThreshold: feedbackConfig.boostThreshold,
+      windowDays: feedbackConfig.windowDays,
+      stats,
+    });
+  } catch (err: any) {
+    console.error("Error in /open-loops/feedback/stats:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to load feedback stats" });
+  }
+});
+
+// GET /open-loops/graph?days=14&chatId=...&includeClosed=1
+// Dependency graph over taskGoal/dependsOnTaskGoal: edges run from the upstream loop to the loop waiting on it.
+openLoopsRouter.get("/open-loops/graph", async (req, res) => {
+  try {
+    const parsed = daysSchema.safeParse((req.query.days as string | undefined) ?? "14");
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const chatId = typeof req.query.chatId === "string" && req.query.chatId ? req.query.chatId : null;
+    const includeClosed = req.query.includeClosed === "1" || req.query.includeClosed === "true";
+    const graph = await getLoopGraph({ days: parsed.data, chatId, includeClosed });
+    res.json({ ...graph, meta: { days: parsed.data, chatId, includeClosed } });
+  } catch (err: any) {
+    console.error("Error in /open-loops/graph:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to build open loop graph" });
+  }
+});
+
+// GET /open-loops/clusters/:clusterId
+// Every loop linked into a cross-chat cluster, including ones the user unlinked (detached: true).
+openLoopsRouter.get("/open-loops/clusters/:clusterId", async (req, res) => {
+  try {
+    const { clusterId } = req.params;
+    const members = await getLoopCluster(clusterId);
+    if (!members.length) return res.status(404).json({ error: "Cluster not found" });
+    res.json({ clusterId, members });
+  } catch (err: any) {
+    console.error("Error in /open-loops/clusters/:clusterId:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to load cluster" });
+  }
+});
+
+// POST /open-loops/:id/unlink
+// Detaches a loop from its cluster; it shows up on its own again and is no longer closed with its siblings.
+openLoopsRouter.post("/open-loops/:id/unlink", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const resolved = await resolveLoop(id);
+    if (!resolved) return res.status(404).json({ error: "Open loop not found" });
+    const clusterId = await detachLoopFromCluster(resolved.chatId, resolved.loopId);
+    if (!clusterId) return res.status(404).json({ error: "Open loop is not linked to a cluster" });
+    res.json({ ok: true, clusterId });
+  } catch (err: any) {
+    console.error("Error in /open-loops/:id/unlink:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to unlink open loop" });
+  }
+});
+
+// GET /open-loops/:id/history
+// Append-only lifecycle timeline (EA runs, closure pass, user actions) from open_loop_events.
+openLoopsRouter.get("/open-loops/:id/history", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const current = await pool
+      .query("SELECT loop_id, chat_id, summary, type, status, urgency, importance, snooze_until, first_seen_ts, last_seen_ts FROM open_loops WHERE loop_id = $1 LIMIT 1", [id])
+      .then((r) => r.rows?.[0] ?? null);
+    const events = await listLoopEvents(id, current?.chat_id ?? null);
+    if (!current && !events.length) return res.status(404).json({ error: "Open loop not found" });
+    res.json({
+      loop: current
+        ? {
+            id: current.loop_id,
+            chatId: current.chat_id,
+            summary: current.summary,
+            type: current.type,
+            status: current.status,
+            urgency: current.urgency,
+            importance: current.importance,
+            snoozeUntil: current.snooze_until == null ? null : Number(current.snooze_until),
+            firstSeenTs: current.first_seen_ts == null ? null : Number(current.first_seen_ts),
+            lastSeenTs: current.last_seen_ts == null ? null : Number(current.last_seen_ts),
+          }
+        : null,
+      events,
+    });
+  } catch (err: any) {
+    console.error("Error in /open-loops/:id/history:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to load open loop history" });
+  }
+});
+
+// POST /open-loops/:id/draft-reply
+// 2-3 candidate replies (with tone labels) in the chat's language; stored in open_loop_drafts.
+openLoopsRouter.post("/open-loops/:id/draft-reply", async (req, res) => {
+  const { id } = req.params;
+  const runId = await startRun({ kind: "draft_reply_run", runType: "manual", params: { loopId: id } });
+  try {
+    const result = await generateDraftReplies(id, { runId });
+    await saveArtifact({ runId, artifactType: "draft_reply_result", chatId: result.chatId, payload: result });
+    await finishRun(runId, { status: "ok" });
+    res.json(result);
+  } catch (err: any) {
+    await finishRun(runId, { status: "error", error: err?.message ?? String(err) });
+    if (err instanceof DraftReplyError) {
+      return res.status(err.status).json({ error: err.reasonCode, message: err.message });
+    }
+    console.error("Error in /open-loops/:id/draft-reply:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to draft reply" });
+  }
+});
+
+// GET /open-loops/:id/drafts
+openLoopsRouter.get("/open-loops/:id/drafts", async (req, res) => {
+  try {
+    const limit = Math.min(Number(req.query.limit ?? 10) || 10, 50);
+    res.json({ drafts: await listDraftReplies(req.params.id, limit) });
+  } catch (err: any) {
+    console.error("Error in /open-loops/:id/drafts:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to load drafts" });
+  }
+});
+
+const draftUseSchema = z.object({
+  index: z.number().int().min(0).max(2),
+});
+
+// POST /open-loops/:id/drafts/:draftId/use  { index }
+openLoopsRouter.post("/open-loops/:id/drafts/:draftId/use", async (req, res) => {
+  try {
+    const parsed = draftUseSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    const draftId = Number(req.params.draftId);
+    if (!Number.isInteger(draftId) || draftId <= 0) return res.status(400).json({ error: "Invalid draftId" });
+    const updated = await markDraftUsed(req.params.id, draftId, parsed.data.index);
+    if (!updated) return res.status(404).json({ error: "Draft not found" });
+    res.json({ ok: true, draft: updated });
+  } catch (err: any) {
+    console.error("Error in /open-loops/:id/drafts/:draftId/use:", err?.message ?? err);
+    res.status(500).json({ error: "Failed to update draft" });
+  }
+});
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { refreshEAOpenLoopsForRecentChats } from "../services/eaOpenLoopsService.js";
 import { startRun, finishRun, saveArtifact } from "../services/intelPersistence.js";
+import { summarizeRunCache } from "../llm.js";
 
 export const openLoopsRefreshRouter = Router();
 
@@ -18,18 +19,22 @@ openLoopsRefreshRouter.post("/open-loops/refresh", async (req, res) => {
     const limitParam = Number(req.query.limit ?? 5000);
     const maxNewMessages = Number.isFinite(limitParam) && limitParam > 0 ? limitParam : 5000;
     const includeGroups = String(req.query.includeGroups ?? "true").toLowerCase() === "true";
-    const results = await refreshEAOpenLoopsForRecentChats(hours, { force, runType, maxNewMessages, includeGroups });
+    const bypassCache = ["1", "true"].includes(String(req.query.bypassCache ?? "").toLowerCase());
+    const results = await refreshEAOpenLoopsForRecentChats(hours, { force, runType, maxNewMessages, includeGroups, runId, bypassCache });
+    const cache = summarizeRunCache(runId);
     const artifactPayload = {
       runId,
       windowHours: hours,
       chatsProcessed: results.length,
       loopsAdded: 0,
       loopsClosed: 0,
+      bypassCache,
+      ...cache,
       evidencePointers: { sample: (results ?? []).slice(0, 5) },
     };
     const artifactId = await saveArtifact({ runId, artifactType: "open_loops_refresh_result", payload: artifactPayload });
     await finishRun(runId, { status: "ok" });
-    res.json({ ok: true, runId, artifactId, summary: { chatsProcessed: results.length, windowHours: hours } });
+    res.json({ ok: true, runId, artifactId, summary: { chatsProcessed: results.length, windowHours: hours, ...cache } });
   } catch (err: any) {
     await finishRun(runId, { status: "error", error: err?.message ?? String(err) });
     console.error("Error in /open-loops/refresh:", err?.message ?? err);
@@ -3,6 +3,7 @@ import fs from "fs";
 import path from "path";
 import { readOrchestratorState, buildSchedulerStatus } from "../services/orchestratorService.js";
 import { pool } from "../db.js";
+import { config } from "../config.js";
 import { fetchServiceStatus } from "../whatsappClient.js";
 
 export const uiRouter = Router();
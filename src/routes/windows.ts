@@ -1,20 +1,45 @@
 import { Router } from "express";
 import { backfillWindowsForLastHours, loadRecentWindowSummary } from "../services/windowAnalysisService.js";
+import { startRun, finishRun, saveArtifact } from "../services/intelPersistence.js";
+import { checkLlmBudget, summarizeBudget } from "../llmBudget.js";
+import { summarizeRunCache } from "../llm.js";
 
 export const windowsRouter = Router();
 
 windowsRouter.post("/v2/windows/backfill", async (req, res) => {
+  const runId = await startRun({
+    kind: "windows_backfill_run",
+    runType: (req.query.runType as string | undefined) ?? "manual",
+    params: req.query,
+  });
   try {
     const hoursParam = Number(req.query.hours ?? 24);
     const hours = Number.isFinite(hoursParam) && hoursParam > 0 ? Math.min(hoursParam, 240) : 24;
     const force = String(req.query.force ?? "false").toLowerCase() === "true";
+    const bypassCache = ["1", "true"].includes(String(req.query.bypassCache ?? "").toLowerCase());
 
-    const analyses = await backfillWindowsForLastHours(hours, force);
-    res.json({
+    const budget = await checkLlmBudget("window", { runId });
+    if (budget.action === "skip") {
+      const payload = { windowsProcessed: 0, windowIds: [], skipped: true, reasonCode: budget.reasonCode, budget: summarizeBudget(budget) };
+      await saveArtifact({ runId, artifactType: "windows_backfill_result", payload });
+      await finishRun(runId, { status: "ok" });
+      return res.json(payload);
+    }
+
+    const analyses = await backfillWindowsForLastHours(hours, force, { runId, model: budget.model, bypassCache });
+    const payload = {
       windowsProcessed: analyses.length,
       windowIds: analyses.map((a) => a.id).filter((id) => typeof id === "string" && id.length > 0),
-    });
+      reasonCode: budget.reasonCode,
+      budget: summarizeBudget(budget),
+      bypassCache,
+      ...summarizeRunCache(runId),
+    };
+    await saveArtifact({ runId, artifactType: "windows_backfill_result", payload });
+    await finishRun(runId, { status: "ok" });
+    res.json(payload);
   } catch (err: any) {
+    await finishRun(runId, { status: "error", error: err?.message ?? String(err) });
     console.error("Error in /v2/windows/backfill:", err);
     res.status(500).json({ error: "Failed to backfill window analyses" });
   }
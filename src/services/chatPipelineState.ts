@@ -11,7 +11,7 @@ type ChatStatePatch = {
 export async function getChatState(chatId: string): Promise<any | null> {
   try {
     const res = await pool.query(
-      "SELECT chat_id, oldest_ts_seen_ms, newest_ts_seen_ms, seen_msg_count, last_run_at, last_run_type FROM chat_pipeline_state WHERE chat_id = $1 LIMIT 1",
+      "SELECT chat_id, oldest_ts_seen_ms, newest_ts_seen_ms, seen_msg_count, last_run_at, last_run_type, dirty_since_ms, last_ingest_at, last_ingest_msg_ts FROM chat_pipeline_state WHERE chat_id = $1 LIMIT 1",
       [chatId]
     );
     return res.rows?.[0] ?? null;
@@ -62,3 +62,86 @@ export async function upsertChatState(chatId: string, patch: ChatStatePatch): Pr
     console.error("[chatPipelineState] upsertChatState failed", err);
   }
 }
+
+export type DirtyChatMark = { chatId: string; newestMsgTs: number; oldestMsgTs: number; count: number };
+
+// Flags chats as having unprocessed messages. dirty_since_ms keeps the first unprocessed arrival;
+// last_ingest_at moves on every batch so consumers can wait for the chat to go quiet.
+// The WhatsApp notification channel posts reminders into NOTIFY_WHATSAPP_SELF_CHAT_ID, and they come back through
+// ingest. They are the user's own tasks, not new ones, so that chat is kept out of dirty marking and extraction.
+export function isNotificationSelfChat(chatId: string | null | undefined): boolean {
+  const selfChatId = process.env.NOTIFY_WHATSAPP_SELF_CHAT_ID ?? "";
+  return !!selfChatId && chatId === selfChatId;
+}
+
+export async function markChatsDirty(allMarks: DirtyChatMark[], now = Date.now()): Promise<number> {
+  const marks = allMarks.filter((m) => !isNotificationSelfChat(m.chatId));
+  if (!marks.length) return 0;
+  try {
+    const values: string[] = [];
+    const params: any[] = [];
+    let idx = 1;
+    for (const m of marks) {
+      values.push(`($${idx++}, $${idx++}, $${idx++}, $${idx++}, $${idx++}, $${idx++})`);
+      params.push(m.chatId, now, now, m.newestMsgTs, m.oldestMsgTs, m.newestMsgTs);
+    }
+    const res = await pool.query(
+      `
+      INSERT INTO chat_pipeline_state (chat_id, dirty_since_ms, last_ingest_at, last_ingest_msg_ts, oldest_ts_seen_ms, newest_ts_seen_ms)
+      VALUES ${values.join(", ")}
+      ON CONFLICT (chat_id) DO UPDATE
+        SET dirty_since_ms = COALESCE(chat_pipeline_state.dirty_since_ms, EXCLUDED.dirty_since_ms),
+            last_ingest_at = EXCLUDED.last_ingest_at,
+            last_ingest_msg_ts = GREATEST(COALESCE(chat_pipeline_state.last_ingest_msg_ts, 0), EXCLUDED.last_ingest_msg_ts),
+            oldest_ts_seen_ms = LEAST(COALESCE(chat_pipeline_state.oldest_ts_seen_ms, EXCLUDED.oldest_ts_seen_ms), EXCLUDED.oldest_ts_seen_ms),
+            newest_ts_seen_ms = GREATEST(COALESCE(chat_pipeline_state.newest_ts_seen_ms, 0), EXCLUDED.newest_ts_seen_ms)
+      `,
+      params
+    );
+    return res.rowCount ?? marks.length;
+  } catch (err) {
+    console.error("[chatPipelineState] markChatsDirty failed", err);
+    return 0;
+  }
+}
+
+export type QuietDirtyChat = { chatId: string; dirtySinceMs: number; lastIngestAt: number | null };
+
+// Dirty chats whose last ingest is older than quietBeforeTs, i.e. the conversation has gone quiet.
+export async function listQuietDirtyChats(quietBeforeTs: number, limit: number): Promise<QuietDirtyChat[]> {
+  try {
+    const res = await pool.query(
+      `
+      SELECT chat_id, dirty_since_ms, last_ingest_at
+      FROM chat_pipeline_state
+      WHERE dirty_since_ms IS NOT NULL AND COALESCE(last_ingest_at, dirty_since_ms) <= $1
+      ORDER BY dirty_since_ms ASC
+      LIMIT $2
+      `,
+      [quietBeforeTs, limit]
+    );
+    return (res.rows ?? []).map((r: any) => ({
+      chatId: r.chat_id,
+      dirtySinceMs: Number(r.dirty_since_ms),
+      lastIngestAt: r.last_ingest_at == null ? null : Number(r.last_ingest_at),
+    }));
+  } catch (err) {
+    console.error("[chatPipelineState] listQuietDirtyChats failed", err);
+    return [];
+  }
+}
+
+// Clears the dirty flag unless more messages arrived after `seenIngestAt` (those keep the chat dirty
+// so the next quiet period picks them up).
+export async function clearChatDirty(chatId: string, seenIngestAt: number | null): Promise<boolean> {
+  try {
+    const res = await pool.query(
+      "UPDATE chat_pipeline_state SET dirty_since_ms = NULL WHERE chat_id = $1 AND ($2::bigint IS NULL OR COALESCE(last_ingest_at, 0) <= $2::bigint)",
+      [chatId, seenIngestAt]
+    );
+    return (res.rowCount ?? 0) > 0;
+  } catch (err) {
+    console.error("[chatPipelineState] clearChatDirty failed", err);
+    return false;
+  }
+}
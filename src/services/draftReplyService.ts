@@ -0,0 +1,180 @@
+import { pool } from "../db.js";
+import { callLLMWithMeta, getModelName } from "../llm.js";
+import { buildDraftReplyPrompt, DraftReplyOutput, toSummaryMessages } from "../prompts.js";
+import { getChatMessagesAround } from "../intel/messageStore.js";
+import { getUserProfile } from "./userProfileService.js";
+import { getLatestRelationshipSnapshot } from "./relationshipService.js";
+import { fallbackNameFromChatId } from "../utils/displayName.js";
+
+// Drafts for loops that advertise draft_reply (see mapNextActions in openLoopsV2Service).
+const DRAFTABLE_TYPES = new Set(["reply_needed", "decision_needed"]);
+const TAIL_BEFORE = 25;
+const TAIL_AFTER = 10;
+
+export class DraftReplyError extends Error {
+  constructor(public reasonCode: string, message: string, public status = 422) {
+    super(message);
+    this.name = "DraftReplyError";
+  }
+}
+
+export type DraftReply = { index: number; text: string; tone: string; rationale?: string };
+
+export type DraftReplySet = {
+  draftId: number | null;
+  loopId: string;
+  chatId: string;
+  language: string | null;
+  drafts: DraftReply[];
+  promptVersion: string;
+  model: string;
+  createdTs: number;
+  usedIndex: number | null;
+  usedTs: number | null;
+};
+
+function sanitizeDrafts(out: Partial<DraftReplyOutput>): DraftReply[] {
+  const seen = new Set<string>();
+  const drafts: DraftReply[] = [];
+  for (const d of out?.drafts ?? []) {
+    const text = typeof d?.text === "string" ? d.text.trim() : "";
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    const tone = typeof d?.tone === "string" && d.tone.trim() ? d.tone.trim().toLowerCase() : "neutral";
+    const rationale = typeof d?.rationale === "string" && d.rationale.trim() ? d.rationale.trim() : undefined;
+    drafts.push({ index: drafts.length, text, tone, ...(rationale ? { rationale } : {}) });
+    if (drafts.length >= 3) break;
+  }
+  return drafts;
+}
+
+function rowToDraftSet(r: any): DraftReplySet {
+  return {
+    draftId: Number(r.id),
+    loopId: r.loop_id,
+    chatId: r.chat_id,
+    language: r.language ?? null,
+    drafts: r.drafts ?? [],
+    promptVersion: r.prompt_version,
+    model: r.model,
+    createdTs: Number(r.created_ts),
+    usedIndex: r.used_index ?? null,
+    usedTs: r.used_ts == null ? null : Number(r.used_ts),
+  };
+}
+
+export async function generateDraftReplies(loopId: string, opts: { runId?: number | null } = {}): Promise<DraftReplySet> {
+  const row = await pool
+    .query("SELECT loop_id, chat_id, summary, type, status, payload FROM open_loops WHERE loop_id = $1 ORDER BY updated_at DESC LIMIT 1", [loopId])
+    .then((r) => r.rows?.[0] ?? null);
+  if (!row) throw new DraftReplyError("LOOP_NOT_FOUND", "Open loop not found", 404);
+  const payload = row.payload ?? {};
+  const type = row.type ?? payload.type;
+  if (!DRAFTABLE_TYPES.has(type)) {
+    throw new DraftReplyError("DRAFT_NOT_APPLICABLE", `Draft replies are only generated for ${Array.from(DRAFTABLE_TYPES).join("/")} loops (got ${type ?? "unknown"})`);
+  }
+
+  const chatId: string = row.chat_id;
+  const evidenceMessageId: string | null = payload.evidenceMessageId ?? payload.messageId ?? null;
+  const evidenceTs = evidenceMessageId
+    ? await pool
+        .query("SELECT ts FROM messages WHERE id = $1 AND chat_id = $2 LIMIT 1", [evidenceMessageId, chatId])
+        .then((r) => (r.rows?.[0]?.ts != null ? Number(r.rows[0].ts) : null))
+    : null;
+  // Around the evidence message when we have it; otherwise the chat tail.
+  const raw = await getChatMessagesAround(chatId, evidenceTs ?? Date.now(), TAIL_BEFORE, evidenceTs ? TAIL_AFTER : 0);
+  const messages = toSummaryMessages(raw as any);
+  if (!messages.length) throw new DraftReplyError("DRAFT_NO_MESSAGES", "No messages stored for this chat");
+
+  const [profile, relationship] = await Promise.all([
+    getUserProfile().catch(() => null),
+    getLatestRelationshipSnapshot(chatId).catch(() => null),
+  ]);
+  const displayName = payload.displayName ?? payload.chatDisplayName ?? fallbackNameFromChatId(chatId);
+  const prompt = buildDraftReplyPrompt({
+    chatId,
+    displayName,
+    isGroup: chatId.endsWith("@g.us"),
+    loop: {
+      summary: row.summary ?? payload.summary ?? "",
+      type,
+      taskGoal: payload.taskGoal ?? null,
+      evidenceMessageId,
+      evidenceText: payload.evidenceText ?? null,
+    },
+    messages,
+    userStyle: profile?.communicationStyle ?? null,
+    relationship: relationship?.summary ?? null,
+  });
+
+  const llm = await callLLMWithMeta<DraftReplyOutput>("draftReply", prompt, { runId: opts.runId, chatId, bypassCache: true });
+  const drafts = sanitizeDrafts(llm.data);
+  if (drafts.length < 2) throw new DraftReplyError("DRAFT_TOO_FEW", `Model returned ${drafts.length} usable drafts`, 502);
+
+  const set: DraftReplySet = {
+    draftId: null,
+    loopId: row.loop_id,
+    chatId,
+    language: typeof llm.data?.language === "string" ? llm.data.language : null,
+    drafts,
+    promptVersion: prompt.promptVersion!,
+    model: getModelName("draftReply"),
+    createdTs: Date.now(),
+    usedIndex: null,
+    usedTs: null,
+  };
+  const context = {
+    evidenceMessageId,
+    messageIds: messages.map((m) => m.id),
+    usedProfileStyle: !!profile?.communicationStyle,
+    relationshipSnapshotTs: relationship?.snapshotTs ?? null,
+  };
+  try {
+    const res = await pool.query(
+      `
+      INSERT INTO open_loop_drafts (loop_id, chat_id, run_id, language, drafts, context, prompt_version, model, created_ts)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING id
+      `,
+      [set.loopId, chatId, opts.runId ?? null, set.language, JSON.stringify(drafts), JSON.stringify(context), set.promptVersion, set.model, set.createdTs]
+    );
+    set.draftId = Number(res.rows?.[0]?.id ?? 0) || null;
+  } catch (err) {
+    console.error("[draftReply] failed to store drafts", err);
+  }
+  return set;
+}
+
+export async function listDraftReplies(loopId: string, limit = 10): Promise<DraftReplySet[]> {
+  try {
+    const res = await pool.query(
+      `
+      SELECT id, loop_id, chat_id, language, drafts, prompt_version, model, created_ts, used_index, used_ts
+      FROM open_loop_drafts
+      WHERE loop_id = $1
+      ORDER BY created_ts DESC
+      LIMIT $2
+      `,
+      [loopId, limit]
+    );
+    return (res.rows ?? []).map(rowToDraftSet);
+  } catch (err) {
+    console.error("[draftReply] listDraftReplies failed", err);
+    return [];
+  }
+}
+
+// Records which draft the user picked (sent/copied) so the UI can show it and we can learn tone preferences.
+export async function markDraftUsed(loopId: string, draftId: number, index: number): Promise<DraftReplySet | null> {
+  const res = await pool.query(
+    `
+    UPDATE open_loop_drafts
+    SET used_index = $3, used_ts = $4
+    WHERE id = $1 AND loop_id = $2 AND $3 < jsonb_array_length(drafts)
+    RETURNING id, loop_id, chat_id, language, drafts, prompt_version, model, created_ts, used_index, used_ts
+    `,
+    [draftId, loopId, index, Date.now()]
+  );
+  const row = res.rows?.[0];
+  return row ? rowToDraftSet(row) : null;
+}
@@ -1,6 +1,6 @@
 import crypto from "node:crypto";
-import { callLLM, getModelName } from "../llm.js";
-import { buildEAOpenLoopsV1Prompt } from "../prompts.js";
+import { callLLMWithMeta, getModelName } from "../llm.js";
+import { buildEAOpenLoopsV1Prompt, EA_OPEN_LOOPS_PROMPT_VARIANTS, EAOpenLoopsV1Output } from "../prompts.js";
 import { toSummaryMessages } from "../prompts.js";
 import {
   getLatestChatEAState,
@@ -13,10 +13,16 @@ import {
 import { getOpenLoopCursor, saveOpenLoopCursor, saveActiveLoopsToDb, saveDebugRunToDb } from "./openLoopsPersistence.js";
 import fs from "fs/promises";
 import path from "path";
-import { normalizeWhen } from "../utils/when.js";
+import { formatDateInTz, normalizeWhen } from "../utils/when.js";
+import { detectRecurrence, formatRRule, occurrenceOnOrAfter } from "../utils/recurrence.js";
 import { appendRun, DropRecord } from "../stores/eaDebugRunsStore.js";
 import { pool } from "../db.js";
 import { getChatMessagesSince, getRecentMessagesSince } from "../intel/messageStore.js";
+import { diffPromptOutputs } from "../utils/promptDiff.js";
+import { closureConfig, detectLoopClosures, LoopClosure } from "./loopClosureService.js";
+import { ChatFeedback, loadChatFeedback } from "./loopFeedbackService.js";
+import { applyLoopDependencies, resolveLoopDependencies } from "./loopDependencyService.js";
+import { isNotificationSelfChat } from "./chatPipelineState.js";
 
 const DEFAULT_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
 const dbOnly = String(process.env.OPEN_LOOPS_DB_ONLY ?? "false").toLowerCase() === "true";
@@ -122,13 +128,16 @@ function sanitizeEAResult(
   lastMessageId: string | undefined,
   loops: any[],
   messages: ReturnType<typeof toSummaryMessages>,
-  cap = 10
+  cap = 10,
+  feedback?: ChatFeedback
 ): { sanitizedLoops: EAOpenLoop[]; dropped: DropRecord[] } {
   const sanitized: EAOpenLoop[] = [];
   const byKey = new Map<string, EAOpenLoop>();
   const messageById = new Map<string, string>();
+  const messageTsById = new Map<string, number>();
   for (const m of messages) {
     messageById.set(m.id, m.body);
+    messageTsById.set(m.id, m.ts);
   }
   const dropped: DropRecord[] = [];
   const strictEvidence = process.env.STRICT_EVIDENCE === "1";
@@ -217,6 +226,7 @@ function sanitizeEAResult(
 
     const urgency: EAOpenLoop["urgency"] = (() => {
       if (loop?.urgency === "high" || loop?.urgency === "moderate") return loop.urgency;
+      if (loop?.urgency === "medium") return "moderate";
       const sev = typeof loop?.severity === "string" ? loop.severity.toLowerCase() : "";
       if (sev === "high") return "high";
       if (sev === "medium") return "moderate";
@@ -257,6 +267,14 @@ function sanitizeEAResult(
       dropped.push({ reason: "low_confidence_or_empty", loop });
       continue;
     }
+    // Learned from user actions in this chat: repeatedly dismissed intents are dropped, kept ones bumped.
+    if (feedback && (feedback.suppressedIntents.has(taskGoal) || (intentKey && feedback.suppressedIntents.has(intentKey)))) {
+      dropped.push({ reason: "user_suppressed_intent", loop });
+      continue;
+    }
+    if (feedback && (feedback.boostedIntents.has(taskGoal) || (intentKey && feedback.boostedIntents.has(intentKey)))) {
+      importance = Math.min(10, importance + 1);
+    }
     const clean: EAOpenLoop = {
       id: undefined,
       intentKey,
@@ -285,6 +303,17 @@ function sanitizeEAResult(
       evidenceText: evidenceText ?? evidenceBody.slice(0, 200),
       evidenceInferred: evidenceInferred || loop?.evidenceInferred === true,
     };
+    // Standing commitments ("every Sunday", "rent on the 1st") carry an RRULE; undated ones get their first occurrence.
+    const recurrence = detectRecurrence(`${summary} ${evidenceText ?? ""}`, { recurring: loop?.recurring === true });
+    if (recurrence && clean.type !== "info_to_save") {
+      if (!clean.whenDate && !clean.hasTime) {
+        const saidTs = (evidenceMessageId && messageTsById.get(evidenceMessageId)) || messages[messages.length - 1]?.ts || Date.now();
+        clean.whenDate = occurrenceOnOrAfter(recurrence, formatDateInTz(new Date(saidTs)));
+      }
+      // pin the day of a monthly series to its first occurrence, or a short month would shift it for good
+      if (recurrence.freq === "MONTHLY" && !recurrence.byMonthDay && clean.whenDate) recurrence.byMonthDay = Number(clean.whenDate.slice(8, 10));
+      clean.recurrence = formatRRule(recurrence);
+    }
     if (!clean.whenDate && !clean.hasTime && typeof loop?.when === "string" && loop.when.trim().length > 0) {
       clean.whenOptions = Array.from(new Set([...(clean.whenOptions ?? []), loop.when.trim()]));
     }
@@ -301,6 +330,7 @@ function sanitizeEAResult(
       existing.confidence = Math.max(existing.confidence ?? 0.5, confidence);
       existing.urgency = existing.urgency === "high" || clean.urgency === "high" ? "high" : existing.urgency === "moderate" || clean.urgency === "moderate" ? "moderate" : "low";
       existing.taskGoal = existing.taskGoal ?? taskGoal;
+      existing.recurrence = existing.recurrence ?? clean.recurrence;
       continue;
     }
     byKey.set(dedupeKey, clean);
@@ -319,7 +349,14 @@ function deriveRunType(runType?: string | null): "morning" | "evening" | "manual
   return "manual";
 }
 
-export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?: boolean; maxNewMessages?: number; runType?: "morning" | "evening" | "manual"; hours?: number } = {}) {
+// throwOnLlmError: rethrow LLM failures instead of returning the prior state, for callers that must not
+// treat a failed run as processed (the dirty-chat job retries it).
+export async function refreshEAOpenLoopsForChat(
+  chatId: string,
+  opts: { force?: boolean; maxNewMessages?: number; runType?: "morning" | "evening" | "manual"; hours?: number; runId?: number | null; bypassCache?: boolean; throwOnLlmError?: boolean } = {}
+) {
+  // our own reminders land in the self chat; extracting them would turn the plate into new loops
+  if (isNotificationSelfChat(chatId)) return null;
   const force = !!opts.force;
   const maxNewMessages = opts.maxNewMessages ?? 5000;
   const runType = deriveRunType(opts.runType);
@@ -359,6 +396,7 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
     return priorState;
   }
 
+  const feedback = await loadChatFeedback(chatId);
   const prompt = buildEAOpenLoopsV1Prompt({
     chatId,
     displayName: messages[0]?.displayName ?? chatId,
@@ -369,6 +407,7 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
     newMessages,
     messages,
     ownerPerspective: "me",
+    userFeedback: { ...feedback.examples, suppressedIntents: Array.from(feedback.suppressedIntents) },
   });
 
   if (process.env.DEBUG_INTEL === "1") {
@@ -380,11 +419,19 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
     });
   }
 
-  let result: { openLoops?: any[] } = {};
+  let result: Partial<EAOpenLoopsV1Output> = {};
+  let cacheHit = false;
   try {
-    result = await callLLM<any>("openLoops", prompt);
+    const llm = await callLLMWithMeta<EAOpenLoopsV1Output>("openLoops", prompt, {
+      runId: opts.runId,
+      chatId,
+      bypassCache: opts.bypassCache,
+    });
+    result = llm.data;
+    cacheHit = llm.cacheHit;
   } catch (err) {
     console.error("[ea-openloops] LLM failed", { chatId, err });
+    if (opts.throwOnLlmError) throw err;
     return priorState;
   }
 
@@ -397,7 +444,7 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
     });
   }
 
-  const sanitizedResult = sanitizeEAResult(chatId, lastMessageId, result.openLoops ?? [], messages, 10);
+  const sanitizedResult = sanitizeEAResult(chatId, lastMessageId, result.openLoops ?? [], messages, 10, feedback);
   let openLoops = sanitizedResult.sanitizedLoops;
 
   // Auto generate follow-up receipt loops for send-style tasks
@@ -467,6 +514,7 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
     actor: l.type === "info_to_save" ? l.actor : "me",
     lastSeenTs: lastTs,
     id: stableLoopId(chatId, { ...l, actor: l.type === "info_to_save" ? l.actor : "me" }),
+    promptVersion: prompt.promptVersion,
   }));
 
   // Consolidate by chatId + taskGoal to one obligation.
@@ -503,6 +551,7 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
         summary: acc.summary.length >= cur.summary.length ? acc.summary : cur.summary,
         dependsOnTaskGoal: acc.dependsOnTaskGoal ?? cur.dependsOnTaskGoal,
         blockedReason: acc.blockedReason ?? cur.blockedReason,
+        recurrence: acc.recurrence ?? cur.recurrence,
         context: acc.context ?? cur.context,
       };
     }, best);
@@ -518,6 +567,24 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
   }
   openLoops = consolidated;
 
+  // Closure pass: later messages that show a loop's task happened close it. Prior open loops the LLM
+  // didn't carry over are checked too so they don't linger open in open_loops.
+  let closures: LoopClosure[] = [];
+  if (closureConfig.enabled) {
+    const carried = new Set(openLoops.map((l) => l.id));
+    const priorOpen = (priorState?.openLoops ?? []).filter((l) => l.status === "open" && l.id && !carried.has(l.id));
+    const pass = detectLoopClosures(chatId, [...openLoops, ...priorOpen], messages, { defaultAfterTs: lastProcessed });
+    closures = pass.closures;
+    const closedPrior = pass.loops.slice(openLoops.length).filter((l) => l.status === "done");
+    openLoops = [...pass.loops.slice(0, openLoops.length), ...closedPrior];
+    const doneGoals = new Set(openLoops.filter((l) => l.status === "done" && l.taskGoal).map((l) => l.taskGoal));
+    openLoops = openLoops.map((l) =>
+      l.type === "follow_up" && l.blocked && l.dependsOnTaskGoal && doneGoals.has(l.dependsOnTaskGoal) ? { ...l, blocked: false } : l
+    );
+  }
+  // Dependencies on loops from earlier runs (or other chats) decide blocked before anything is stored.
+  openLoops = await applyLoopDependencies(openLoops);
+
   // Persist debug run
   const runRecord = {
     runId: `${Date.now()}`,
@@ -530,6 +597,9 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
     sanitizedOpenLoops: openLoops,
     dropped: sanitizedResult.dropped,
     runType,
+    cacheHit,
+    promptVersion: prompt.promptVersion,
+    closures,
   };
   try {
     await appendRun(chatId, runRecord);
@@ -547,6 +617,7 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
       rawOpenLoops: runRecord.rawOpenLoops,
       sanitizedOpenLoops: runRecord.sanitizedOpenLoops,
       dropped: runRecord.dropped,
+      closures: runRecord.closures,
     });
   } catch (err) {
     console.error("[ea-openloops] failed to dual-write debug run", err);
@@ -593,9 +664,11 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
     lastProcessedMessageTs: lastTs,
     openLoops,
     modelUsed: getModelName("openLoops"),
+    promptVersion: prompt.promptVersion,
   };
 
-  await saveActiveLoopsToDb(openLoops as any, "ea_v2");
+  await saveActiveLoopsToDb(openLoops as any, "ea_v2", { runId: opts.runId });
+  await resolveLoopDependencies({ runId: opts.runId });
 
   if (!dbOnly) {
     if (force) await clearChatEAState(chatId);
@@ -622,7 +695,7 @@ export async function refreshEAOpenLoopsForChat(chatId: string, opts: { force?:
 
 export async function refreshEAOpenLoopsForRecentChats(
   hours: number,
-  opts: { force?: boolean; maxChats?: number; maxNewMessages?: number; runType?: "morning" | "evening" | "manual"; includeGroups?: boolean } = {}
+  opts: { force?: boolean; maxChats?: number; maxNewMessages?: number; runType?: "morning" | "evening" | "manual"; includeGroups?: boolean; runId?: number | null; bypassCache?: boolean } = {}
 ) {
   const force = !!opts.force;
   const maxChats = opts.maxChats ?? 50;
@@ -636,6 +709,7 @@ export async function refreshEAOpenLoopsForRecentChats(
 
   const byChat = new Map<string, number>();
   for (const m of rawMessages) {
+    if (isNotificationSelfChat(m.chatId)) continue;
     byChat.set(m.chatId, Math.max(byChat.get(m.chatId) ?? 0, m.ts));
   }
   const chats = Array.from(byChat.entries())
@@ -649,7 +723,7 @@ export async function refreshEAOpenLoopsForRecentChats(
   let totalFetchedMessages = rawMessages.length;
   let truncatedChatsCount = 0;
   for (const chatId of chats) {
-    const state = await refreshEAOpenLoopsForChat(chatId, { force, maxNewMessages, runType, hours });
+    const state = await refreshEAOpenLoopsForChat(chatId, { force, maxNewMessages, runType, hours, runId: opts.runId, bypassCache: opts.bypassCache });
     if (state) results.push(state);
   }
 
@@ -667,6 +741,69 @@ export async function refreshEAOpenLoopsForRecentChats(
   return results;
 }
 
+// Runs two prompt versions over the same message window without touching state, cursors or the
+// open_loops table. Prior loops are left out so both versions see identical input.
+export async function compareEAOpenLoopsPromptVersions(
+  chatId: string,
+  opts: { versionA: string; versionB: string; hours?: number; maxMessages?: number; runId?: number | null }
+) {
+  const hours = opts.hours ?? 48;
+  const sinceTs = Date.now() - hours * 60 * 60 * 1000;
+  const rawMessages = await getChatMessagesSince(chatId, sinceTs, opts.maxMessages ?? 500);
+  rawMessages.sort((a, b) => a.ts - b.ts);
+  const lastMessageId = rawMessages.length ? rawMessages[rawMessages.length - 1].id : undefined;
+  const messages = toSummaryMessages(rawMessages as any);
+  const feedback = await loadChatFeedback(chatId);
+
+  const runVersion = async (version: string) => {
+    const prompt = EA_OPEN_LOOPS_PROMPT_VARIANTS[version]({
+      chatId,
+      displayName: messages[0]?.displayName ?? chatId,
+      isGroup: chatId.endsWith("@g.us"),
+      priorOpenLoops: [],
+      existingOpenLoops: [],
+      contextMessages: [],
+      newMessages: messages,
+      messages,
+      ownerPerspective: "me",
+      userFeedback: { ...feedback.examples, suppressedIntents: Array.from(feedback.suppressedIntents) },
+    });
+    try {
+      const llm = await callLLMWithMeta<EAOpenLoopsV1Output>("openLoops", prompt, { runId: opts.runId, chatId, bypassCache: true });
+      const { sanitizedLoops, dropped } = sanitizeEAResult(chatId, lastMessageId, llm.data.openLoops ?? [], messages, 10, feedback);
+      return { version, model: llm.model, rawCount: llm.data.openLoops?.length ?? 0, loops: sanitizedLoops, dropped, error: null as string | null };
+    } catch (err: any) {
+      console.error("[ea-openloops] prompt compare failed", { chatId, version, err });
+      return { version, model: null, rawCount: 0, loops: [] as EAOpenLoop[], dropped: [] as DropRecord[], error: err?.message ?? String(err) };
+    }
+  };
+
+  const a = await runVersion(opts.versionA);
+  const b = await runVersion(opts.versionB);
+  const diff = diffPromptOutputs(a.loops, b.loops, (l) => normalizeTaskGoal(l.taskGoal ?? l.summary), [
+    "type",
+    "summary",
+    "actor",
+    "urgency",
+    "importance",
+    "confidence",
+    "when",
+    "whenDate",
+    "status",
+    "blocked",
+  ]);
+  return {
+    chatId,
+    hours,
+    messageCount: messages.length,
+    fromTs: messages[0]?.ts ?? null,
+    toTs: messages[messages.length - 1]?.ts ?? null,
+    a,
+    b,
+    diff,
+  };
+}
+
 export async function loadAllEAOpenLoops(): Promise<EAOpenLoop[]> {
   try {
     const data = await fs.readFile(path.join(process.cwd(), "out", "chat_ea_state.jsonl"), "utf-8");
@@ -0,0 +1,104 @@
+import crypto from "node:crypto";
+import { z } from "zod";
+import { IngestMessage, upsertMessages } from "./dataPersistence.js";
+import { DirtyChatMark, markChatsDirty } from "./chatPipelineState.js";
+
+// Push ingestion from Service A (POST /ingest/messages). Requests are signed with a shared secret:
+//   X-Ingest-Timestamp: <epoch ms>
+//   X-Ingest-Signature: sha256=<hex HMAC-SHA256(secret, `${timestamp}.${rawBody}`)>
+
+export const ingestConfig = {
+  secret: process.env.INGEST_WEBHOOK_SECRET ?? "",
+  // Signed timestamps older/newer than this are rejected (replay protection).
+  maxSkewMs: (() => {
+    const n = Number(process.env.INGEST_MAX_SKEW_MS ?? 5 * 60 * 1000);
+    return Number.isFinite(n) && n > 0 ? n : 5 * 60 * 1000;
+  })(),
+  maxBatch: (() => {
+    const n = Number(process.env.INGEST_MAX_BATCH ?? 2000);
+    return Number.isFinite(n) && n > 0 ? Math.min(n, 10000) : 2000;
+  })(),
+};
+
+export type IngestSignatureCheck = { ok: true } | { ok: false; reasonCode: "INGEST_DISABLED" | "INGEST_BAD_SIGNATURE" | "INGEST_STALE_TIMESTAMP" };
+
+export function signIngestBody(secret: string, timestamp: string, rawBody: Buffer | string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.`).update(rawBody).digest("hex")}`;
+}
+
+export function verifyIngestSignature(rawBody: Buffer, timestamp: string | undefined, signature: string | undefined, now = Date.now()): IngestSignatureCheck {
+  if (!ingestConfig.secret) return { ok: false, reasonCode: "INGEST_DISABLED" };
+  if (!timestamp || !signature) return { ok: false, reasonCode: "INGEST_BAD_SIGNATURE" };
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts) || Math.abs(now - ts) > ingestConfig.maxSkewMs) return { ok: false, reasonCode: "INGEST_STALE_TIMESTAMP" };
+  const expected = Buffer.from(signIngestBody(ingestConfig.secret, timestamp, rawBody));
+  const given = Buffer.from(signature.trim());
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return { ok: false, reasonCode: "INGEST_BAD_SIGNATURE" };
+  }
+  return { ok: true };
+}
+
+const ingestMessageSchema = z
+  .object({
+    id: z.string().min(1),
+    chatId: z.string().min(1).optional(),
+    senderId: z.string().nullable().optional(),
+    displayName: z.string().nullable().optional(),
+    fromMe: z.boolean().optional(),
+    type: z.string().optional(),
+    body: z.string().nullable().optional(),
+    ts: z.number(),
+  })
+  .passthrough();
+
+// Either { messages: [...] } with chatId per message, or { chatId, messages } for a single chat.
+export const ingestBatchSchema = z
+  .object({
+    chatId: z.string().min(1).optional(),
+    messages: z.array(z.unknown()),
+  })
+  .passthrough();
+
+export async function ingestMessageBatch(batch: z.infer<typeof ingestBatchSchema>, now = Date.now()) {
+  // keyed by message id: retried webhooks repeat messages, and one upsert can't touch a row twice (last one wins)
+  const byChat = new Map<string, Map<string, IngestMessage>>();
+  let dropped = 0;
+  for (const raw of batch.messages) {
+    const parsed = ingestMessageSchema.safeParse(raw);
+    const chatId = parsed.success ? parsed.data.chatId ?? batch.chatId : undefined;
+    if (!parsed.success || !chatId) {
+      dropped++;
+      continue;
+    }
+    const m = parsed.data;
+    // seconds -> ms, same heuristic as saveMessages
+    const ts = m.ts < 2_000_000_000 ? Math.round(m.ts * 1000) : m.ts;
+    const byId = byChat.get(chatId) ?? new Map<string, IngestMessage>();
+    byId.set(m.id, { id: m.id, chatId, senderId: m.senderId ?? null, displayName: m.displayName ?? null, fromMe: m.fromMe === true, body: m.body ?? null, ts });
+    byChat.set(chatId, byId);
+  }
+
+  const marks: DirtyChatMark[] = [];
+  for (const [chatId, byId] of byChat) {
+    const messages = Array.from(byId.values());
+    await upsertMessages(chatId, messages);
+    // a loop, not Math.max(...): a big batch for one chat would overflow the argument list
+    let newestMsgTs = -Infinity;
+    let oldestMsgTs = Infinity;
+    for (const m of messages) {
+      if (m.ts! > newestMsgTs) newestMsgTs = m.ts!;
+      if (m.ts! < oldestMsgTs) oldestMsgTs = m.ts!;
+    }
+    marks.push({ chatId, newestMsgTs, oldestMsgTs, count: messages.length });
+  }
+  const dirtyMarked = await markChatsDirty(marks, now);
+  return {
+    ok: true,
+    received: batch.messages.length,
+    written: marks.reduce((a, m) => a + m.count, 0),
+    dropped,
+    chats: marks.map((m) => ({ chatId: m.chatId, count: m.count, newestMsgTs: m.newestMsgTs })),
+    dirtyMarked,
+  };
+}
@@ -1,4 +1,5 @@
 import { pool } from "../db.js";
+import { takeRunStats } from "../llm.js";
 
 type StartRunArgs = { kind: string; runType?: string; params?: any };
 type FinishRunArgs = { status: string; error?: string };
@@ -34,6 +35,13 @@ export async function finishRun(runId: number | null, { status, error }: FinishR
   } catch (err) {
     console.error("[intelPersistence] finishRun failed", err);
   }
+  const llmStats = takeRunStats(runId);
+  if (!llmStats) return;
+  try {
+    await pool.query(`UPDATE intel_runs SET llm_stats = $1 WHERE id = $2`, [llmStats, runId]);
+  } catch (err) {
+    console.error("[intelPersistence] finishRun llm_stats failed", err);
+  }
 }
 
 export async function saveArtifact({ runId, artifactType, chatId, payload }: ArtifactArgs): Promise<number | null> {
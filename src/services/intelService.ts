@@ -1,5 +1,5 @@
-import { callLLM } from "../llm.js";
-import { buildIntelFactsPrompt, toSummaryMessages } from "../prompts.js";
+import { callLLM, callLLMWithMeta } from "../llm.js";
+import { buildIntelFactsPrompt, INTEL_FACTS_PROMPT_VARIANTS, IntelFactsOutput, PROMPT_VERSIONS, toSummaryMessages } from "../prompts.js";
 import {
   appendIntelFactsDedup,
   getRecentIntelFacts,
@@ -11,6 +11,8 @@ import {
   fetchActiveChats,
   fetchChatMessagesSince,
 } from "../whatsappClient.js";
+import { getChatMessagesSince } from "../intel/messageStore.js";
+import { diffPromptOutputs } from "../utils/promptDiff.js";
 
 type DropReason = "missing_evidence" | "invalid_type" | "empty_summary";
 type Correction = "type_coerced";
@@ -153,8 +155,9 @@ export async function bootstrapIntel(opts: {
   limitPerChat: number;
   includeGroups: boolean;
   runType?: string;
+  runId?: number | null;
 }) {
-  const { hours, limitChats, limitPerChat, includeGroups, runType } = opts;
+  const { hours, limitChats, limitPerChat, includeGroups, runType, runId = null } = opts;
   const sinceTs = Date.now() - hours * 60 * 60 * 1000;
   const chats = (await fetchActiveChats(limitChats, includeGroups)).filter((c) =>
     includeGroups ? true : !c.chatId.endsWith("@g.us")
@@ -201,7 +204,7 @@ export async function bootstrapIntel(opts: {
     });
     let facts: any[] = [];
     try {
-      const resp = await callLLM<{ facts?: any[] }>("intelFacts", prompt);
+      const resp = await callLLM<IntelFactsOutput>("intelFacts", prompt, { runId, chatId });
       facts = resp?.facts ?? [];
     } catch (err) {
       console.error("[intel] LLM failure", { chatId, err });
@@ -216,7 +219,7 @@ export async function bootstrapIntel(opts: {
     );
     factsCorrected += corrections.length;
     if (sanitized.length) {
-      const writeResult = await appendIntelFactsDedup(sanitized);
+      const writeResult = await appendIntelFactsDedup(sanitized.map((f) => ({ ...f, promptVersion: prompt.promptVersion })));
       factsWritten += writeResult.written;
       factsDeduped += writeResult.deduped;
     }
@@ -279,6 +282,57 @@ export async function bootstrapIntel(opts: {
     factsDropped: Object.values(dropReasons).reduce((a, b) => a + b, 0),
     dropReasonsCount: dropReasons,
     topChats,
+    promptVersion: PROMPT_VERSIONS.intelFacts,
+  };
+}
+
+// Side-by-side run of two intel facts prompt versions over one chat window; nothing is written.
+export async function compareIntelFactsPromptVersions(
+  chatId: string,
+  opts: { versionA: string; versionB: string; hours?: number; maxMessages?: number; runId?: number | null }
+) {
+  const hours = opts.hours ?? 48;
+  const sinceTs = Date.now() - hours * 60 * 60 * 1000;
+  const rawMessages = await getChatMessagesSince(chatId, sinceTs, opts.maxMessages ?? 500);
+  rawMessages.sort((a, b) => a.ts - b.ts);
+  const messages = toSummaryMessages(rawMessages as any);
+  const isGroup = chatId.endsWith("@g.us");
+  const chatDisplayName = messages[0]?.displayName ?? null;
+
+  const runVersion = async (version: string) => {
+    const prompt = INTEL_FACTS_PROMPT_VARIANTS[version]({ chatId, messages, hours, isGroup, chatDisplayName, mode: "bootstrap" });
+    try {
+      const llm = await callLLMWithMeta<IntelFactsOutput>("intelFacts", prompt, { runId: opts.runId, chatId, bypassCache: true });
+      const facts = llm.data?.facts ?? [];
+      const { sanitized, dropped } = sanitizeIntelFacts(chatId, facts, messages, { isGroup, chatDisplayName });
+      return { version, model: llm.model, rawCount: facts.length, facts: sanitized, dropped, error: null as string | null };
+    } catch (err: any) {
+      console.error("[intel] prompt compare failed", { chatId, version, err });
+      return { version, model: null, rawCount: 0, facts: [] as IntelFactRecord[], dropped: [], error: err?.message ?? String(err) };
+    }
+  };
+
+  const a = await runVersion(opts.versionA);
+  const b = await runVersion(opts.versionB);
+  const diff = diffPromptOutputs(a.facts, b.facts, (f) => `${f.type}|${f.evidenceMessageId}`, [
+    "summary",
+    "epistemicStatus",
+    "entities",
+    "when",
+    "whenDate",
+    "timeCertainty",
+    "attributedTo",
+    "signalScore",
+  ]);
+  return {
+    chatId,
+    hours,
+    messageCount: messages.length,
+    fromTs: messages[0]?.ts ?? null,
+    toTs: messages[messages.length - 1]?.ts ?? null,
+    a,
+    b,
+    diff,
   };
 }
 
@@ -0,0 +1,223 @@
+import { z } from "zod";
+import { pool } from "../db.js";
+import { getTzOffsetMinutes, userTimeZone } from "../utils/when.js";
+import type { ActiveOpenLoop } from "./openLoopsV2Service.js";
+
+// Declarative lane placement on top of the built-in heuristics: rules live in open_loop_lane_rules, run in
+// priority order when the plate is built, and the first match sets the lane. A per-loop laneOverride still
+// wins; loops no rule matches keep their stored/computed lane. Every loop reports what placed it (laneRule).
+
+type Lane = "now" | "later" | "backlog";
+
+const LANES = ["now", "later", "backlog"] as const;
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export const laneRuleConditionsSchema = z
+  .object({
+    surfaceTypes: z.array(z.enum(["reply_needed", "decision_needed", "todo", "event_date", "info_to_save", "follow_up"])).min(1).optional(),
+    urgency: z.array(z.enum(["low", "moderate", "high"])).min(1).optional(),
+    chatIds: z.array(z.string().min(1)).min(1).optional(),
+    // any of these tags on the loop's chat (chat_tags)
+    chatTags: z.array(z.string().trim().toLowerCase().min(1)).min(1).optional(),
+    isGroup: z.boolean().optional(),
+    hasDate: z.boolean().optional(),
+    // loop's when/whenDate is at most this far ahead (overdue counts), like computeLane's 48h window
+    dueWithinHours: z.number().positive().max(24 * 365).optional(),
+    // evaluated against the plate build time in USER_TZ
+    weekdays: z.array(z.enum(WEEKDAYS)).min(1).optional(),
+    localHours: z
+      .string()
+      .regex(/^\d{1,2}-\d{1,2}$/, "localHours must look like 18-8")
+      .refine((v) => v.split("-").every((h) => Number(h) <= 23), "localHours must use hours 0-23")
+      .optional(),
+    summaryContains: z.array(z.string().min(1)).min(1).optional(),
+  })
+  .strict();
+
+export const laneRuleInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200),
+    enabled: z.boolean().default(true),
+    priority: z.number().int().min(0).max(10_000).default(100),
+    conditions: laneRuleConditionsSchema.default({}),
+    lane: z.enum(LANES),
+  })
+  .strict();
+
+export const laneRulePatchSchema = laneRuleInputSchema.partial();
+
+export type LaneRuleConditions = z.infer<typeof laneRuleConditionsSchema>;
+export type LaneRuleInput = z.infer<typeof laneRuleInputSchema>;
+
+export type LaneRule = LaneRuleInput & { id: number; createdTs: number; updatedTs: number };
+
+export type LaneRuleMatch = { source: "override" | "rule" | "default"; ruleId: number | null; name: string };
+
+export type LaneRuleContext = { rules: LaneRule[]; tagsByChat: Map<string, Set<string>>; now: number; tz: string };
+
+function rowToRule(r: any): LaneRule {
+  return {
+    id: Number(r.id),
+    name: r.name,
+    enabled: r.enabled !== false,
+    priority: Number(r.priority ?? 100),
+    conditions: r.conditions ?? {},
+    lane: r.lane as Lane,
+    createdTs: Number(r.created_ts),
+    updatedTs: Number(r.updated_ts),
+  };
+}
+
+export async function listLaneRules(): Promise<LaneRule[]> {
+  const res = await pool.query(
+    "SELECT id, name, enabled, priority, conditions, lane, created_ts, updated_ts FROM open_loop_lane_rules ORDER BY priority ASC, id ASC"
+  );
+  return (res.rows ?? []).map(rowToRule);
+}
+
+export async function getLaneRule(id: number): Promise<LaneRule | null> {
+  const res = await pool.query("SELECT id, name, enabled, priority, conditions, lane, created_ts, updated_ts FROM open_loop_lane_rules WHERE id = $1", [id]);
+  return res.rows?.[0] ? rowToRule(res.rows[0]) : null;
+}
+
+export async function createLaneRule(input: LaneRuleInput): Promise<LaneRule> {
+  const now = Date.now();
+  const res = await pool.query(
+    `
+    INSERT INTO open_loop_lane_rules (name, enabled, priority, conditions, lane, created_ts, updated_ts)
+    VALUES ($1, $2, $3, $4, $5, $6, $6)
+    RETURNING id, name, enabled, priority, conditions, lane, created_ts, updated_ts
+    `,
+    [input.name, input.enabled, input.priority, JSON.stringify(input.conditions ?? {}), input.lane, now]
+  );
+  return rowToRule(res.rows[0]);
+}
+
+export async function updateLaneRule(id: number, patch: Partial<LaneRuleInput>): Promise<LaneRule | null> {
+  const sets: string[] = [];
+  const params: any[] = [];
+  let idx = 1;
+  if (patch.name !== undefined) {
+    sets.push(`name = $${idx++}`);
+    params.push(patch.name);
+  }
+  if (patch.enabled !== undefined) {
+    sets.push(`enabled = $${idx++}`);
+    params.push(patch.enabled);
+  }
+  if (patch.priority !== undefined) {
+    sets.push(`priority = $${idx++}`);
+    params.push(patch.priority);
+  }
+  if (patch.conditions !== undefined) {
+    sets.push(`conditions = $${idx++}`);
+    params.push(JSON.stringify(patch.conditions));
+  }
+  if (patch.lane !== undefined) {
+    sets.push(`lane = $${idx++}`);
+    params.push(patch.lane);
+  }
+  sets.push(`updated_ts = $${idx++}`);
+  params.push(Date.now());
+  params.push(id);
+  const res = await pool.query(
+    `UPDATE open_loop_lane_rules SET ${sets.join(", ")} WHERE id = $${idx} RETURNING id, name, enabled, priority, conditions, lane, created_ts, updated_ts`,
+    params
+  );
+  return res.rows?.[0] ? rowToRule(res.rows[0]) : null;
+}
+
+export async function deleteLaneRule(id: number): Promise<boolean> {
+  const res = await pool.query("DELETE FROM open_loop_lane_rules WHERE id = $1", [id]);
+  return (res.rowCount ?? 0) > 0;
+}
+
+export async function listChatTags(chatId?: string | null): Promise<{ chatId: string; tags: string[] }[]> {
+  const res = await pool.query(
+    "SELECT chat_id, array_agg(tag ORDER BY tag) AS tags FROM chat_tags WHERE ($1::text IS NULL OR chat_id = $1) GROUP BY chat_id ORDER BY chat_id",
+    [chatId ?? null]
+  );
+  return (res.rows ?? []).map((r: any) => ({ chatId: r.chat_id, tags: r.tags ?? [] }));
+}
+
+// Replaces the chat's tag set.
+export async function setChatTags(chatId: string, tags: string[]): Promise<string[]> {
+  const normalized = Array.from(new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean))).sort();
+  await pool.query(
+    `
+    WITH removed AS (
+      DELETE FROM chat_tags WHERE chat_id = $1 AND NOT (tag = ANY($2::text[]))
+    )
+    INSERT INTO chat_tags (chat_id, tag, created_ts)
+    SELECT $1, t, $3 FROM unnest($2::text[]) AS t
+    ON CONFLICT (chat_id, tag) DO NOTHING
+    `,
+    [chatId, normalized, Date.now()]
+  );
+  return normalized;
+}
+
+// Enabled rules + tags for the chats on the plate. Missing tables (migration not applied) mean "no rules".
+export async function loadLaneRuleContext(chatIds: string[], now = Date.now()): Promise<LaneRuleContext> {
+  const ctx: LaneRuleContext = { rules: [], tagsByChat: new Map(), now, tz: userTimeZone };
+  try {
+    ctx.rules = (await listLaneRules()).filter((r) => r.enabled);
+    if (ctx.rules.some((r) => r.conditions.chatTags?.length) && chatIds.length) {
+      const res = await pool.query("SELECT chat_id, tag FROM chat_tags WHERE chat_id = ANY($1::text[])", [Array.from(new Set(chatIds))]);
+      for (const r of res.rows ?? []) {
+        const set = ctx.tagsByChat.get(r.chat_id) ?? new Set<string>();
+        set.add(r.tag);
+        ctx.tagsByChat.set(r.chat_id, set);
+      }
+    }
+  } catch (err) {
+    console.error("[laneRules] loadLaneRuleContext failed", err);
+  }
+  return ctx;
+}
+
+function loopWhenMs(loop: ActiveOpenLoop): number | null {
+  if (loop.when && loop.hasTime && !Number.isNaN(Date.parse(loop.when))) return Date.parse(loop.when);
+  if (loop.whenDate && !Number.isNaN(Date.parse(loop.whenDate))) return Date.parse(loop.whenDate);
+  return null;
+}
+
+function inHourRange(range: string, hour: number): boolean {
+  const [start, end] = range.split("-").map(Number);
+  if (start === end) return true;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+export function ruleMatchesLoop(c: LaneRuleConditions, loop: ActiveOpenLoop, ctx: LaneRuleContext): boolean {
+  const local = new Date(ctx.now + getTzOffsetMinutes(ctx.tz, new Date(ctx.now)) * 60_000);
+  const surfaceType = loop.surfaceType ?? (loop.type as string);
+  if (c.surfaceTypes && !c.surfaceTypes.includes(surfaceType as any)) return false;
+  if (c.urgency && !c.urgency.includes(loop.urgency)) return false;
+  if (c.chatIds && !c.chatIds.includes(loop.chatId)) return false;
+  if (c.chatTags) {
+    const tags = ctx.tagsByChat.get(loop.chatId);
+    if (!tags || !c.chatTags.some((t) => tags.has(t))) return false;
+  }
+  if (c.isGroup !== undefined && !!loop.isGroup !== c.isGroup) return false;
+  const whenMs = loopWhenMs(loop);
+  if (c.hasDate !== undefined && (whenMs !== null) !== c.hasDate) return false;
+  if (c.dueWithinHours !== undefined && (whenMs === null || whenMs - ctx.now > c.dueWithinHours * 60 * 60 * 1000)) return false;
+  if (c.weekdays && !c.weekdays.includes(WEEKDAYS[local.getUTCDay()])) return false;
+  if (c.localHours && !inHourRange(c.localHours, local.getUTCHours())) return false;
+  if (c.summaryContains) {
+    const summary = (loop.summary ?? "").toLowerCase();
+    if (!c.summaryContains.some((s) => summary.includes(s.toLowerCase()))) return false;
+  }
+  return true;
+}
+
+export function applyLaneRules(loops: ActiveOpenLoop[], ctx: LaneRuleContext): ActiveOpenLoop[] {
+  return loops.map((loop) => {
+    if (loop.laneOverride) {
+      return { ...loop, lane: loop.laneOverride, laneRule: { source: "override" as const, ruleId: null, name: "laneOverride" } };
+    }
+    const rule = ctx.rules.find((r) => ruleMatchesLoop(r.conditions, loop, ctx));
+    if (rule) return { ...loop, lane: rule.lane, laneRule: { source: "rule" as const, ruleId: rule.id, name: rule.name } };
+    return { ...loop, laneRule: { source: "default" as const, ruleId: null, name: "default" } };
+  });
+}
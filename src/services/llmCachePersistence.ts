@@ -0,0 +1,43 @@
+import { pool } from "../db.js";
+
+export type LlmCacheKey = { domain: string; model: string; promptHash: string; promptVersion: string };
+
+export async function readCachedResponse(key: LlmCacheKey): Promise<string | null> {
+  try {
+    const res = await pool.query(
+      `
+        UPDATE llm_cache
+        SET hit_count = hit_count + 1, last_hit_at = now()
+        WHERE model = $1 AND prompt_hash = $2 AND prompt_version = $3 AND expires_at > now()
+        RETURNING content
+      `,
+      [key.model, key.promptHash, key.promptVersion]
+    );
+    const content = res.rows?.[0]?.content;
+    return typeof content === "string" ? content : null;
+  } catch (err) {
+    console.error("[llmCachePersistence] readCachedResponse failed", err);
+    return null;
+  }
+}
+
+export async function writeCachedResponse(key: LlmCacheKey, content: string, ttlHours: number): Promise<void> {
+  try {
+    await pool.query(
+      `
+        INSERT INTO llm_cache (domain, model, prompt_hash, prompt_version, content, created_at, expires_at, hit_count)
+        VALUES ($1, $2, $3, $4, $5, now(), now() + ($6 || ' hours')::interval, 0)
+        ON CONFLICT (model, prompt_hash, prompt_version) DO UPDATE SET
+          domain = EXCLUDED.domain,
+          content = EXCLUDED.content,
+          created_at = EXCLUDED.created_at,
+          expires_at = EXCLUDED.expires_at,
+          hit_count = 0,
+          last_hit_at = NULL
+      `,
+      [key.domain, key.model, key.promptHash, key.promptVersion, content, String(ttlHours)]
+    );
+  } catch (err) {
+    console.error("[llmCachePersistence] writeCachedResponse failed", err);
+  }
+}
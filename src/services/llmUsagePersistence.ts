@@ -0,0 +1,150 @@
+import { pool } from "../db.js";
+
+export type LlmCallRecord = {
+  ts: number;
+  domain: string;
+  model: string;
+  provider: string;
+  runId?: number | null;
+  chatId?: string | null;
+  attempt: number;
+  status: "ok" | "error";
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  totalTokens?: number | null;
+  latencyMs: number;
+  costUsd?: number | null;
+  error?: string | null;
+};
+
+export type LlmUsageBucket = {
+  key: string | null;
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+};
+
+export async function saveLlmCall(rec: LlmCallRecord): Promise<void> {
+  try {
+    await pool.query(
+      `
+        INSERT INTO llm_calls
+          (ts, domain, model, provider, run_id, chat_id, attempt, status, prompt_tokens, completion_tokens, total_tokens, latency_ms, cost_usd, error)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      `,
+      [
+        rec.ts,
+        rec.domain,
+        rec.model,
+        rec.provider,
+        rec.runId ?? null,
+        rec.chatId ?? null,
+        rec.attempt,
+        rec.status,
+        rec.promptTokens ?? null,
+        rec.completionTokens ?? null,
+        rec.totalTokens ?? null,
+        Math.round(rec.latencyMs),
+        rec.costUsd ?? null,
+        rec.error ? rec.error.slice(0, 500) : null,
+      ]
+    );
+  } catch (err) {
+    console.error("[llmUsagePersistence] saveLlmCall failed", err);
+  }
+}
+
+// Group-by expressions are fixed here; never interpolate caller input into them.
+const GROUP_EXPRESSIONS = {
+  domain: "c.domain",
+  runKind: "COALESCE(r.kind, 'adhoc')",
+  chat: "c.chat_id",
+  model: "c.model",
+} as const;
+
+type UsageGroup = keyof typeof GROUP_EXPRESSIONS;
+
+function toBucket(row: any): LlmUsageBucket {
+  const calls = Number(row?.calls ?? 0);
+  return {
+    key: row?.key ?? null,
+    calls,
+    errors: Number(row?.errors ?? 0),
+    promptTokens: Number(row?.prompt_tokens ?? 0),
+    completionTokens: Number(row?.completion_tokens ?? 0),
+    totalTokens: Number(row?.total_tokens ?? 0),
+    costUsd: Number(Number(row?.cost_usd ?? 0).toFixed(6)),
+    avgLatencyMs: Math.round(Number(row?.avg_latency_ms ?? 0)),
+  };
+}
+
+async function rollupBy(group: UsageGroup | null, sinceTs: number, limit: number): Promise<LlmUsageBucket[]> {
+  const keyExpr = group ? GROUP_EXPRESSIONS[group] : "NULL";
+  const sql = `
+    SELECT ${keyExpr} AS key,
+      COUNT(*) AS calls,
+      COUNT(*) FILTER (WHERE c.status = 'error') AS errors,
+      COALESCE(SUM(c.prompt_tokens), 0) AS prompt_tokens,
+      COALESCE(SUM(c.completion_tokens), 0) AS completion_tokens,
+      COALESCE(SUM(c.total_tokens), 0) AS total_tokens,
+      COALESCE(SUM(c.cost_usd), 0) AS cost_usd,
+      AVG(c.latency_ms) AS avg_latency_ms
+    FROM llm_calls c
+    LEFT JOIN intel_runs r ON r.id = c.run_id
+    WHERE c.ts >= $1
+    ${group ? "GROUP BY 1 ORDER BY cost_usd DESC, total_tokens DESC" : ""}
+    LIMIT $2
+  `;
+  const res = await pool.query(sql, [sinceTs, limit]);
+  return (res.rows ?? []).map(toBucket);
+}
+
+export async function getLlmUsageRollup(days: number, opts: { chatLimit?: number } = {}) {
+  const sinceTs = Date.now() - days * 24 * 60 * 60 * 1000;
+  const chatLimit = opts.chatLimit ?? 50;
+  try {
+    const [totals, byDomain, byRunKind, byChat, byModel] = await Promise.all([
+      rollupBy(null, sinceTs, 1),
+      rollupBy("domain", sinceTs, 100),
+      rollupBy("runKind", sinceTs, 100),
+      rollupBy("chat", sinceTs, chatLimit),
+      rollupBy("model", sinceTs, 100),
+    ]);
+    const { key: _key, ...total } = totals[0] ?? toBucket(null);
+    return { days, sinceTs, totals: total, byDomain, byRunKind, byChat, byModel };
+  } catch (err) {
+    console.error("[llmUsagePersistence] getLlmUsageRollup failed", err);
+    return null;
+  }
+}
+
+export type LlmSpend = { tokens: number; costUsd: number; calls: number };
+
+// Spend for one domain: within a single run when runId is given, else since local midnight in `tz`.
+export async function getLlmSpend(opts: { domain: string; tz: string; runId?: number | null }): Promise<LlmSpend | null> {
+  try {
+    const scoped = opts.runId != null;
+    const res = await pool.query(
+      `
+        SELECT COALESCE(SUM(total_tokens), 0) AS tokens, COALESCE(SUM(cost_usd), 0) AS cost_usd, COUNT(*) AS calls
+        FROM llm_calls
+        WHERE domain = $1
+          AND ${
+            scoped
+              ? "run_id = $2"
+              : "ts >= EXTRACT(EPOCH FROM (date_trunc('day', now() AT TIME ZONE $2) AT TIME ZONE $2)) * 1000"
+          }
+      `,
+      [opts.domain, scoped ? opts.runId : opts.tz]
+    );
+    const row = res.rows?.[0];
+    return { tokens: Number(row?.tokens ?? 0), costUsd: Number(row?.cost_usd ?? 0), calls: Number(row?.calls ?? 0) };
+  } catch (err) {
+    console.error("[llmUsagePersistence] getLlmSpend failed", err);
+    return null;
+  }
+}
@@ -0,0 +1,168 @@
+import crypto from "node:crypto";
+import { z } from "zod";
+import { pool } from "../db.js";
+import { fallbackNameFromChatId } from "../utils/displayName.js";
+import { appendLoopEvents, OpenLoopEvent } from "./openLoopsPersistence.js";
+
+// User-authored loops and user edits. Loops created here are stored with source "user", which EA runs never
+// write. Edits to any loop are pinned in payload.userEdits so later EA upserts keep them (see saveActiveLoopsToDb).
+
+const LOOP_TYPES = ["reply_needed", "decision_needed", "todo", "event_date", "info_to_save", "follow_up"] as const;
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "whenDate must be YYYY-MM-DD");
+
+export const userLoopInputSchema = z
+  .object({
+    chatId: z.string().min(1),
+    summary: z.string().trim().min(1).max(500),
+    type: z.enum(LOOP_TYPES).default("todo"),
+    whenDate: dateSchema.nullable().optional(),
+    importance: z.number().int().min(1).max(10).default(5),
+    urgency: z.enum(["low", "moderate", "high"]).default("moderate"),
+    messageId: z.string().min(1).optional(),
+    taskGoal: z.string().trim().min(1).max(120).optional(),
+  })
+  .strict();
+
+export const loopEditSchema = z
+  .object({
+    summary: z.string().trim().min(1).max(500).optional(),
+    type: z.enum(LOOP_TYPES).optional(),
+    whenDate: dateSchema.nullable().optional(),
+    importance: z.number().int().min(1).max(10).optional(),
+    urgency: z.enum(["low", "moderate", "high"]).optional(),
+    // null ends a recurring series: closing the loop no longer opens a next occurrence
+    recurrence: z.null().optional(),
+  })
+  .strict()
+  .refine((v) => Object.keys(v).length > 0, { message: "Nothing to update" });
+
+export type UserLoopInput = z.infer<typeof userLoopInputSchema>;
+export type LoopEdit = z.infer<typeof loopEditSchema>;
+
+export class LoopAuthoringError extends Error {
+  constructor(public reasonCode: string, message: string, public status = 400) {
+    super(message);
+    this.name = "LoopAuthoringError";
+  }
+}
+
+export async function createUserLoop(input: UserLoopInput, now = Date.now()) {
+  const chat = await pool.query("SELECT id, name FROM chats WHERE id = $1", [input.chatId]).then((r) => r.rows?.[0] ?? null);
+  if (!chat) throw new LoopAuthoringError("CHAT_NOT_FOUND", "Chat not found", 404);
+  let evidence: { id: string; content: string | null; ts: number } | null = null;
+  if (input.messageId) {
+    const msg = await pool
+      .query("SELECT id, content, ts FROM messages WHERE id = $1 AND chat_id = $2", [input.messageId, input.chatId])
+      .then((r) => r.rows?.[0] ?? null);
+    if (!msg) throw new LoopAuthoringError("MESSAGE_NOT_FOUND", "Message not found in this chat", 404);
+    evidence = { id: msg.id, content: msg.content ?? null, ts: Number(msg.ts) };
+  }
+
+  const loopId = `${input.chatId}-u${crypto.randomBytes(6).toString("hex")}`;
+  const firstSeenTs = evidence?.ts ?? now;
+  const loop = {
+    id: loopId,
+    chatId: input.chatId,
+    summary: input.summary,
+    type: input.type,
+    status: "open",
+    urgency: input.urgency,
+    importance: input.importance,
+    confidence: 1,
+    when: null,
+    whenDate: input.whenDate ?? null,
+    hasTime: false,
+    actor: "me",
+    origin: "user",
+    taskGoal: input.taskGoal,
+    displayName: chat.name ?? fallbackNameFromChatId(input.chatId),
+    isGroup: input.chatId.endsWith("@g.us"),
+    evidenceMessageId: evidence?.id,
+    evidenceText: evidence?.content ?? undefined,
+    firstSeenTs,
+    lastSeenTs: now,
+    createdTs: now,
+  };
+  await pool.query(
+    `
+    INSERT INTO open_loops (
+      loop_id, chat_id, source, summary, type, status, urgency, importance, confidence,
+      when_ts, when_date, has_time, lane, first_seen_ts, last_seen_ts, payload
+    )
+    VALUES ($1, $2, 'user', $3, $4, 'open', $5, $6, 1, NULL, $7, false, NULL, $8, $9, $10)
+    `,
+    [loopId, input.chatId, input.summary, input.type, input.urgency, input.importance, input.whenDate ?? null, firstSeenTs, now, JSON.stringify(loop)]
+  );
+  await appendLoopEvents([
+    {
+      loopId,
+      chatId: input.chatId,
+      eventType: "created",
+      actor: "user",
+      ts: now,
+      changes: null,
+      evidence: { evidenceMessageId: evidence?.id ?? null, evidenceText: evidence?.content ?? null },
+    },
+  ]);
+  return loop;
+}
+
+// Applies the edit to the row and pins the edited fields; returns the updated loop or null when it doesn't exist.
+export async function editLoop(chatId: string, loopId: string, edit: LoopEdit, now = Date.now()) {
+  const rows = await pool
+    .query("SELECT source, summary, type, urgency, importance, to_char(when_date, 'YYYY-MM-DD') AS when_date, payload FROM open_loops WHERE loop_id = $1 AND chat_id = $2", [
+      loopId,
+      chatId,
+    ])
+    .then((r) => r.rows ?? []);
+  if (!rows.length) return null;
+  const prev = rows[0];
+
+  const fields: Record<string, any> = { ...edit };
+  if (edit.whenDate !== undefined) Object.assign(fields, { whenDate: edit.whenDate, when: null, hasTime: false });
+  const userEdits = { fields: { ...(prev.payload?.userEdits?.fields ?? {}), ...fields }, editedTs: now };
+
+  const sets: string[] = [];
+  const params: any[] = [loopId, chatId];
+  let idx = 3;
+  const columns: Record<string, string> = { summary: "summary", type: "type", importance: "importance", urgency: "urgency", whenDate: "when_date" };
+  for (const [field, column] of Object.entries(columns)) {
+    if ((edit as any)[field] === undefined) continue;
+    sets.push(`${column} = $${idx++}`);
+    params.push((edit as any)[field]);
+  }
+  if (edit.whenDate !== undefined) sets.push("when_ts = NULL", "has_time = false");
+  sets.push(`payload = COALESCE(payload, '{}'::jsonb) || $${idx++}::jsonb`);
+  params.push(JSON.stringify({ ...fields, userEdits }));
+  const updated = await pool
+    .query(`UPDATE open_loops SET ${sets.join(", ")}, updated_at = now() WHERE loop_id = $1 AND chat_id = $2 RETURNING payload, status`, params)
+    .then((r) => r.rows?.[0] ?? null);
+
+  const before: Record<string, any> = {
+    summary: prev.summary ?? null,
+    type: prev.type ?? null,
+    urgency: prev.urgency ?? null,
+    importance: prev.importance ?? null,
+    whenDate: prev.when_date ?? null,
+    recurrence: prev.payload?.recurrence ?? null,
+  };
+  const changes: Record<string, { from: any; to: any }> = {};
+  for (const [field, to] of Object.entries(edit)) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(to)) changes[field] = { from: before[field], to };
+  }
+  const { urgency, importance, ...rest } = changes;
+  const events: OpenLoopEvent[] = [];
+  if (urgency || importance) {
+    events.push({
+      loopId,
+      chatId,
+      eventType: "reprioritized",
+      actor: "user",
+      ts: now,
+      changes: { ...(urgency ? { urgency } : {}), ...(importance ? { importance } : {}) },
+    });
+  }
+  if (Object.keys(rest).length) events.push({ loopId, chatId, eventType: "updated", actor: "user", ts: now, changes: rest });
+  await appendLoopEvents(events);
+  return { ...(updated?.payload ?? {}), id: loopId, chatId, status: updated?.status ?? "open", source: prev.source };
+}
@@ -0,0 +1,162 @@
+import crypto from "node:crypto";
+import { z } from "zod";
+import { pool } from "../db.js";
+import { LoopRef, updateLoopStatus } from "./openLoopsPersistence.js";
+import { LoopAction, recordLoopAction, removeLoopActions } from "./loopFeedbackService.js";
+import { resolveLoopDependencies } from "./loopDependencyService.js";
+
+// Bulk triage: one action over many loops in a single transaction (every update goes through updateLoopStatus,
+// so events and cluster closes behave as for single actions). The state each loop had before is stored in
+// open_loop_bulk_batches under an undo token; undoing within OPEN_LOOPS_UNDO_WINDOW_MINUTES restores it.
+
+export const bulkConfig = {
+  undoWindowMinutes: (() => {
+    const n = Number(process.env.OPEN_LOOPS_UNDO_WINDOW_MINUTES ?? 10);
+    return Number.isFinite(n) && n > 0 ? n : 10;
+  })(),
+  maxIds: 200,
+};
+
+const idsSchema = z.array(z.string().min(1)).min(1).max(bulkConfig.maxIds);
+
+export const bulkActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("complete"), ids: idsSchema }),
+  z.object({ action: z.literal("dismiss"), ids: idsSchema }),
+  z.object({ action: z.literal("snooze"), ids: idsSchema, hours: z.number().positive().max(24 * 30) }),
+  z.object({ action: z.literal("lane"), ids: idsSchema, lane: z.enum(["now", "later", "backlog"]).nullable() }),
+  z.object({ action: z.literal("note"), ids: idsSchema, note: z.string().max(1000).nullable() }),
+]);
+
+export type BulkActionInput = z.infer<typeof bulkActionSchema>;
+
+type BulkItem = LoopRef & {
+  status: string | null;
+  snoozeUntil: number | null;
+  laneOverride: string | null;
+  overrideNote: string | null;
+  via?: "cluster";
+};
+
+export class LoopBulkError extends Error {
+  constructor(public reasonCode: string, message: string, public status = 400) {
+    super(message);
+    this.name = "LoopBulkError";
+  }
+}
+
+const FEEDBACK_ACTIONS: Partial<Record<BulkActionInput["action"], LoopAction>> = { complete: "complete", dismiss: "dismiss", snooze: "snooze" };
+
+function rowToItem(r: any): BulkItem {
+  return {
+    loopId: r.loop_id,
+    chatId: r.chat_id,
+    status: r.status ?? null,
+    snoozeUntil: r.snooze_until == null ? null : Number(r.snooze_until),
+    laneOverride: r.lane_override ?? null,
+    overrideNote: r.override_note ?? null,
+  };
+}
+
+const STATE_COLUMNS = "loop_id, chat_id, status, snooze_until, lane_override, override_note";
+
+export async function applyBulkAction(input: BulkActionInput, now = Date.now()) {
+  const ids = Array.from(new Set(input.ids));
+  const rows = await pool
+    .query(`SELECT DISTINCT ON (loop_id) ${STATE_COLUMNS} FROM open_loops WHERE loop_id = ANY($1::text[]) ORDER BY loop_id, updated_at DESC`, [ids])
+    .then((r) => r.rows ?? []);
+  const found = new Set(rows.map((r: any) => r.loop_id));
+  const missing = ids.filter((id) => !found.has(id));
+  if (missing.length) throw new LoopBulkError("NOT_FOUND", `Open loops not found: ${missing.join(", ")}`, 404);
+
+  const token = crypto.randomBytes(18).toString("base64url");
+  const expiresTs = now + bulkConfig.undoWindowMinutes * 60 * 1000;
+  const audit = { actor: "user" as const, evidence: { bulkToken: token } };
+  const items: BulkItem[] = [];
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const id of ids) {
+      const prior = rowToItem(rows.find((r: any) => r.loop_id === id));
+      items.push(prior);
+      const updates =
+        input.action === "complete"
+          ? { status: "done" }
+          : input.action === "dismiss"
+          ? { status: "dismissed" }
+          : input.action === "snooze"
+          ? { snoozeUntil: now + input.hours * 60 * 60 * 1000 }
+          : input.action === "lane"
+          ? { snoozeUntil: prior.snoozeUntil, laneOverride: input.lane }
+          : { snoozeUntil: prior.snoozeUntil, overrideNote: input.note };
+      const siblings = await updateLoopStatus(prior.chatId, prior.loopId, updates, audit, client);
+      for (const s of siblings) {
+        // closed as part of a cluster: only the status changed, the rest is read back as it is now
+        const row = await client
+          .query(`SELECT ${STATE_COLUMNS} FROM open_loops WHERE loop_id = $1 AND chat_id = $2 LIMIT 1`, [s.loopId, s.chatId])
+          .then((r) => r.rows?.[0]);
+        if (row) items.push({ ...rowToItem(row), status: "open", via: "cluster" });
+      }
+    }
+    const params = input.action === "snooze" ? { hours: input.hours } : input.action === "lane" ? { lane: input.lane } : input.action === "note" ? { note: input.note } : null;
+    await client.query(
+      "INSERT INTO open_loop_bulk_batches (token, action, params, items, created_ts, expires_ts) VALUES ($1, $2, $3, $4, $5, $6)",
+      [token, input.action, params ? JSON.stringify(params) : null, JSON.stringify(items), now, expiresTs]
+    );
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  const requested = items.filter((i) => !i.via);
+  const feedbackAction = FEEDBACK_ACTIONS[input.action];
+  if (feedbackAction) {
+    for (const i of requested) await recordLoopAction(i.chatId, i.loopId, feedbackAction, now);
+  }
+  if (input.action === "complete" || input.action === "dismiss") await resolveLoopDependencies();
+  return {
+    undoToken: token,
+    expiresTs,
+    action: input.action,
+    updated: requested.map(({ loopId, chatId }) => ({ loopId, chatId })),
+    closedSiblings: items.filter((i) => i.via === "cluster").map(({ loopId, chatId }) => ({ loopId, chatId })),
+  };
+}
+
+// Restores every loop in the batch (cluster siblings included) to the state it had before, newest change first.
+export async function undoBulkAction(token: string, now = Date.now()) {
+  const client = await pool.connect();
+  let batch: any;
+  try {
+    await client.query("BEGIN");
+    batch = await client.query("SELECT * FROM open_loop_bulk_batches WHERE token = $1 FOR UPDATE", [token]).then((r) => r.rows?.[0] ?? null);
+    if (!batch) throw new LoopBulkError("UNKNOWN_TOKEN", "Unknown undo token", 404);
+    if (batch.undone_ts != null) throw new LoopBulkError("ALREADY_UNDONE", "This batch was already undone", 409);
+    if (Number(batch.expires_ts) < now) throw new LoopBulkError("UNDO_EXPIRED", "The undo window for this batch has passed", 410);
+    const items: BulkItem[] = batch.items ?? [];
+    for (const item of [...items].reverse()) {
+      await updateLoopStatus(
+        item.chatId,
+        item.loopId,
+        { status: item.status ?? "open", snoozeUntil: item.snoozeUntil, laneOverride: item.laneOverride, overrideNote: item.overrideNote },
+        { actor: "user", evidence: { undoOf: token } },
+        client
+      );
+    }
+    await client.query("UPDATE open_loop_bulk_batches SET undone_ts = $2 WHERE token = $1", [token, now]);
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  const items: BulkItem[] = batch.items ?? [];
+  const feedbackAction = FEEDBACK_ACTIONS[batch.action as BulkActionInput["action"]];
+  if (feedbackAction) await removeLoopActions(items.filter((i) => !i.via), feedbackAction, Number(batch.created_ts));
+  if (batch.action === "complete" || batch.action === "dismiss") await resolveLoopDependencies();
+  return { action: batch.action, restored: items.map(({ loopId, chatId }) => ({ loopId, chatId })) };
+}
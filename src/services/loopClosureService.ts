@@ -0,0 +1,154 @@
+import { EAOpenLoop } from "../stores/chatEAStateStore.js";
+
+// Deterministic closure pass over EA loops: looks at messages newer than the loop's evidence for signs the
+// task happened (reply sent, link shared, "done", the other side confirming) and closes the loop when the
+// best signal clears OPEN_LOOPS_CLOSURE_MIN_CONFIDENCE. Candidates below the bar are still reported.
+
+export const closureConfig = {
+  enabled: String(process.env.OPEN_LOOPS_CLOSURE_ENABLED ?? "true").toLowerCase() === "true",
+  minConfidence: (() => {
+    const n = Number(process.env.OPEN_LOOPS_CLOSURE_MIN_CONFIDENCE ?? 0.7);
+    return Number.isFinite(n) && n > 0 && n <= 1 ? n : 0.7;
+  })(),
+};
+
+export type ClosureReasonCode = "LINK_SHARED" | "DONE_STATED" | "CONFIRMED_BY_THEM" | "REPLY_SENT" | "DECISION_MADE" | "EVENT_CONFIRMED";
+
+export type LoopClosure = {
+  loopId?: string;
+  taskGoal?: string;
+  summary: string;
+  reasonCode: ClosureReasonCode;
+  closedByMessageId: string;
+  closedTs: number;
+  evidence: string;
+  confidence: number;
+  applied: boolean;
+};
+
+type ClosureMessage = { id: string; ts: number; fromMe: boolean; body: string };
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "about", "them", "they", "their", "your", "have", "will",
+  "need", "needs", "send", "reply", "follow", "back", "what", "when", "whether", "check", "make", "sure", "todo",
+]);
+
+const URL_RE = /\bhttps?:\/\/\S+/i;
+const SEND_TASK_RE = /\b(send|share|forward|link|invite|doc|docs|file|address|instructions|details|payment|invoice|email|attach|upload)\b/i;
+const DONE_RE = /\b(done|sent|paid|booked|ordered|submitted|emailed|forwarded|shared|attached|uploaded|transferred|finished|sorted|completed)\b/i;
+// negation or future/pending wording: "haven't paid it yet", "will send tomorrow" say the task is still open
+const PENDING_RE = /\b(not|never|yet|will|going to|gonna|tomorrow|later|soon|tonight)\b|\w+n['’]t\b|\b(i|we)['’]ll\b/i;
+const THEM_CONFIRM_RE = /\b(got it|received|thanks|thank you|thx|perfect|all good|works|confirmed|cheers)\b/i;
+const DECISION_RE = /\b(yes|yeah|yep|no|nope|let'?s (go|do)|go with|sounds good|ok|okay|deal|agreed|works for me|i'?ll take)\b/i;
+const EVENT_CONFIRM_RE = /\b(see you|see ya|confirmed|booked|reserved|it'?s a date|on my way|omw|here now|arrived)\b/i;
+
+function keywords(loop: EAOpenLoop): string[] {
+  const text = `${loop.summary ?? ""} ${(loop.taskGoal ?? "").replace(/_/g, " ")}`.toLowerCase();
+  return Array.from(new Set(text.split(/[^\p{L}\p{N}]+/u).filter((w) => w.length >= 4 && !STOPWORDS.has(w))));
+}
+
+function overlap(words: string[], body: string): number {
+  const lower = body.toLowerCase();
+  return words.filter((w) => lower.includes(w)).length;
+}
+
+// Clauses of a message that state something done: a DONE_RE keyword and no pending wording in the same clause.
+function doneClauses(body: string): string[] {
+  return body
+    .split(/[.;!?,\n]+|\s(?:but|though|although)\s/i)
+    .filter((clause) => DONE_RE.test(clause) && !PENDING_RE.test(clause));
+}
+
+function score(
+  loop: EAOpenLoop,
+  m: ClosureMessage,
+  ctx: { words: string[]; isGroup: boolean; actedBefore: boolean; firstFromMe: boolean }
+): { reasonCode: ClosureReasonCode; confidence: number } | null {
+  const hits = overlap(ctx.words, m.body);
+  const sendTask = SEND_TASK_RE.test(loop.summary) || SEND_TASK_RE.test(loop.taskGoal ?? "");
+  const candidates: { reasonCode: ClosureReasonCode; confidence: number }[] = [];
+
+  if (m.fromMe) {
+    if (URL_RE.test(m.body) && (sendTask || hits > 0)) candidates.push({ reasonCode: "LINK_SHARED", confidence: hits > 0 ? 0.9 : 0.85 });
+    // "done" must sit in a clause with the loop's own words to reach the bar; a bare "done" is often about something else
+    const done = doneClauses(m.body);
+    if (done.length) {
+      if (done.some((clause) => overlap(ctx.words, clause) > 0)) candidates.push({ reasonCode: "DONE_STATED", confidence: 0.8 });
+      else if (!ctx.isGroup && m.body.length <= 40 && loop.type !== "reply_needed") candidates.push({ reasonCode: "DONE_STATED", confidence: 0.5 });
+    }
+    if (loop.type === "reply_needed" && ctx.firstFromMe && (!ctx.isGroup || hits > 0)) {
+      candidates.push({ reasonCode: "REPLY_SENT", confidence: hits > 0 ? 0.8 : 0.7 });
+    }
+    if (loop.type === "decision_needed" && DECISION_RE.test(m.body)) {
+      candidates.push({ reasonCode: "DECISION_MADE", confidence: hits > 0 ? 0.8 : ctx.isGroup ? 0.4 : 0.5 });
+    }
+  } else if (ctx.actedBefore && THEM_CONFIRM_RE.test(m.body) && loop.type !== "event_date") {
+    const receipt = loop.type === "follow_up" || (loop.taskGoal ?? "").startsWith("follow_up_receipt__");
+    candidates.push({ reasonCode: "CONFIRMED_BY_THEM", confidence: receipt ? 0.85 : hits > 0 ? 0.8 : 0.65 });
+  }
+  if (loop.type === "event_date" && EVENT_CONFIRM_RE.test(m.body)) {
+    candidates.push({ reasonCode: "EVENT_CONFIRMED", confidence: hits > 0 ? 0.75 : 0.6 });
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence)[0] ?? null;
+}
+
+// `defaultAfterTs` bounds the search for loops whose evidence message is not in `messages`
+// (e.g. carried over from an earlier run): only messages after it count.
+export function detectLoopClosures(
+  chatId: string,
+  loops: EAOpenLoop[],
+  messages: ClosureMessage[],
+  opts: { defaultAfterTs: number; minConfidence?: number }
+): { loops: EAOpenLoop[]; closures: LoopClosure[] } {
+  const minConfidence = opts.minConfidence ?? closureConfig.minConfidence;
+  const isGroup = chatId.endsWith("@g.us");
+  const sorted = [...messages].sort((a, b) => a.ts - b.ts);
+  const tsById = new Map(sorted.map((m) => [m.id, m.ts]));
+  const closures: LoopClosure[] = [];
+
+  const out = loops.map((loop) => {
+    if (loop.status !== "open" || loop.type === "info_to_save" || loop.blocked === true) return loop;
+    const afterTs = (loop.evidenceMessageId ? tsById.get(loop.evidenceMessageId) : undefined) ?? opts.defaultAfterTs;
+    const words = keywords(loop);
+    let best: LoopClosure | null = null;
+    let actedBefore = false;
+    let firstFromMe = true;
+    for (const m of sorted) {
+      if (m.ts <= afterTs || m.id === loop.evidenceMessageId) continue;
+      const hit = score(loop, m, { words, isGroup, actedBefore, firstFromMe });
+      if (hit && (!best || hit.confidence > best.confidence)) {
+        best = {
+          loopId: loop.id,
+          taskGoal: loop.taskGoal,
+          summary: loop.summary,
+          reasonCode: hit.reasonCode,
+          closedByMessageId: m.id,
+          closedTs: m.ts,
+          evidence: m.body.length > 200 ? `${m.body.slice(0, 197)}...` : m.body,
+          confidence: hit.confidence,
+          applied: false,
+        };
+      }
+      if (m.fromMe) {
+        actedBefore = true;
+        firstFromMe = false;
+      }
+    }
+    if (!best) return loop;
+    best.applied = best.confidence >= minConfidence;
+    closures.push(best);
+    if (!best.applied) return loop;
+    return {
+      ...loop,
+      status: "done" as const,
+      closedByMessageId: best.closedByMessageId,
+      closureEvidence: best.evidence,
+      closureConfidence: best.confidence,
+      closureReason: best.reasonCode,
+      closedTs: best.closedTs,
+    };
+  });
+
+  return { loops: out, closures };
+}
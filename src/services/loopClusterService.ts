@@ -0,0 +1,249 @@
+import crypto from "node:crypto";
+import { pool } from "../db.js";
+import { fallbackNameFromChatId } from "../utils/displayName.js";
+import type { ActiveOpenLoop } from "./openLoopsV2Service.js";
+
+// Cross-chat linking: stableLoopId is per chat, but one task (a dinner planned with a partner and with the host)
+// often surfaces in several chats. Open loops from different chats are linked when their summaries say the same
+// thing (a shared intentKey/taskGoal only counts alongside overlapping summaries or matching dates, since those
+// keys are coarse) and their timing lines up; a cluster never holds two loops of one chat. Links persist in
+// open_loop_cluster_members (so ids stay stable and closing one member closes the rest, see closeClusterSiblings)
+// and the plate shows one item per cluster.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// summary overlap that, together with a shared intentKey/taskGoal, is enough to link
+const KEY_MIN_OVERLAP = 0.25;
+
+export const clusterConfig = {
+  enabled: String(process.env.OPEN_LOOPS_CLUSTER_ENABLED ?? "true").toLowerCase() === "true",
+  minSimilarity: (() => {
+    const n = Number(process.env.OPEN_LOOPS_CLUSTER_MIN_SIMILARITY ?? 0.6);
+    return Number.isFinite(n) && n > 0 && n <= 1 ? n : 0.6;
+  })(),
+  windowDays: (() => {
+    const n = Number(process.env.OPEN_LOOPS_CLUSTER_WINDOW_DAYS ?? 7);
+    return Number.isFinite(n) && n > 0 ? n : 7;
+  })(),
+};
+
+export type ClusterSource = { chatId: string; displayName: string; loopId: string; summary: string; status: string };
+
+const STOPWORDS = new Set(["the", "and", "for", "with", "about", "from", "this", "that", "reply", "send", "confirm", "check", "follow", "need", "needs"]);
+
+function summaryTokens(loop: ActiveOpenLoop): Set<string> {
+  const text = (loop.summary || "").toLowerCase();
+  return new Set(text.split(/[^\p{L}\p{N}]+/u).filter((w) => w.length >= 3 && !STOPWORDS.has(w)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let inter = 0;
+  for (const t of a) if (b.has(t)) inter++;
+  return inter / (a.size + b.size - inter);
+}
+
+function whenDay(loop: ActiveOpenLoop): number | null {
+  const raw = loop.whenDate ?? (loop.when ? String(loop.when) : null);
+  const ms = raw ? Date.parse(raw) : NaN;
+  return Number.isNaN(ms) ? null : Math.floor(ms / DAY_MS);
+}
+
+// Similarity of two loops from different chats, 0 when they shouldn't be linked. ignoreWindow skips the
+// last-seen window, for links that already exist.
+export function loopLinkSimilarity(a: ActiveOpenLoop, b: ActiveOpenLoop, opts: { ignoreWindow?: boolean } = {}): number {
+  const da = whenDay(a);
+  const db = whenDay(b);
+  const sameDay = da !== null && db !== null ? Math.abs(da - db) <= 1 : null;
+  if (sameDay === false) return 0;
+  if (!sameDay && !opts.ignoreWindow && Math.abs((a.lastSeenTs ?? 0) - (b.lastSeenTs ?? 0)) > clusterConfig.windowDays * DAY_MS) return 0;
+  const overlap = jaccard(summaryTokens(a), summaryTokens(b));
+  const sameKey = (!!a.intentKey && a.intentKey === b.intentKey) || (!!a.taskGoal && a.taskGoal === b.taskGoal);
+  if (sameKey && (sameDay || overlap >= KEY_MIN_OVERLAP)) return 1;
+  return overlap >= clusterConfig.minSimilarity ? overlap : 0;
+}
+
+const memberKey = (l: { chatId: string; id?: string; loopId?: string }) => `${l.chatId}|${l.id ?? l.loopId}`;
+
+// Pure clustering over open, non-info loops: union-find over cross-chat pairs, strongest first, seeded with
+// existing links that still hold. A merge that would put two loops of one chat together is refused, so
+// transitivity can't join them. Returns the groups spanning 2+ chats.
+export function findLoopClusters(
+  loops: ActiveOpenLoop[],
+  existing: Map<string, string>,
+  detached: Set<string>
+): { members: ActiveOpenLoop[]; similarity: number; existingIds: string[] }[] {
+  const candidates = loops.filter((l) => (l.status ?? "open") === "open" && l.surfaceType !== "info_to_save");
+  const parent = new Map<string, string>();
+  const chats = new Map<string, Set<string>>(); // root -> chats in its group
+  const best = new Map<string, number>();
+  const find = (k: string): string => {
+    while (parent.get(k) !== k) {
+      parent.set(k, parent.get(parent.get(k)!)!);
+      k = parent.get(k)!;
+    }
+    return k;
+  };
+  const union = (a: string, b: string): boolean => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra === rb) return true;
+    const ca = chats.get(ra)!;
+    const cb = chats.get(rb)!;
+    for (const c of cb) if (ca.has(c)) return false;
+    for (const c of cb) ca.add(c);
+    parent.set(rb, ra);
+    return true;
+  };
+  for (const l of candidates) {
+    parent.set(memberKey(l), memberKey(l));
+    chats.set(memberKey(l), new Set([l.chatId]));
+  }
+
+  const pairs: { a: ActiveOpenLoop; b: ActiveOpenLoop; sim: number }[] = [];
+  const seeded: typeof pairs = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      if (a.chatId === b.chatId || detached.has(memberKey(a)) || detached.has(memberKey(b))) continue;
+      const linked = !!existing.get(memberKey(a)) && existing.get(memberKey(a)) === existing.get(memberKey(b));
+      const sim = loopLinkSimilarity(a, b, { ignoreWindow: linked });
+      if (sim > 0) (linked ? seeded : pairs).push({ a, b, sim });
+    }
+  }
+  const bySim = (x: { sim: number }, y: { sim: number }) => y.sim - x.sim;
+  for (const { a, b, sim } of [...seeded.sort(bySim), ...pairs.sort(bySim)]) {
+    if (!union(memberKey(a), memberKey(b))) continue;
+    for (const k of [memberKey(a), memberKey(b)]) best.set(k, Math.max(best.get(k) ?? 0, sim));
+  }
+
+  const groups = new Map<string, ActiveOpenLoop[]>();
+  for (const l of candidates) {
+    const root = find(memberKey(l));
+    groups.set(root, [...(groups.get(root) ?? []), l]);
+  }
+  return Array.from(groups.values())
+    .filter((members) => new Set(members.map((m) => m.chatId)).size >= 2)
+    .map((members) => ({
+      members,
+      similarity: Math.round(Math.min(...members.map((m) => best.get(memberKey(m)) ?? 1)) * 100) / 100,
+      existingIds: Array.from(new Set(members.map((m) => existing.get(memberKey(m))).filter((x): x is string => !!x))).sort(),
+    }));
+}
+
+async function loadMemberships(loops: ActiveOpenLoop[]): Promise<{ existing: Map<string, string>; detached: Set<string> }> {
+  const existing = new Map<string, string>();
+  const detached = new Set<string>();
+  const res = await pool.query("SELECT loop_id, chat_id, cluster_id, detached FROM open_loop_cluster_members WHERE loop_id = ANY($1::text[])", [
+    Array.from(new Set(loops.map((l) => l.id))),
+  ]);
+  for (const r of res.rows ?? []) {
+    const key = `${r.chat_id}|${r.loop_id}`;
+    if (r.detached) detached.add(key);
+    else existing.set(key, r.cluster_id);
+  }
+  return { existing, detached };
+}
+
+// Links the plate's loops across chats and folds each cluster into one item: the highest-ranked member
+// (urgency, importance, recency) carries clusterId and sourceChats for every member.
+export async function applyLoopClusters(loops: ActiveOpenLoop[], now = Date.now()): Promise<ActiveOpenLoop[]> {
+  if (!clusterConfig.enabled || loops.length < 2) return loops;
+  let clusters: { clusterId: string; members: ActiveOpenLoop[]; similarity: number }[];
+  try {
+    const { existing, detached } = await loadMemberships(loops);
+    clusters = findLoopClusters(loops, existing, detached).map((c) => ({
+      ...c,
+      clusterId:
+        c.existingIds[0] ?? `cl_${crypto.createHash("sha1").update(c.members.map(memberKey).sort().join(",")).digest("hex").slice(0, 16)}`,
+    }));
+    // open loops whose old links no longer hold leave their cluster, so closing them closes nothing else
+    const linked = new Set(clusters.flatMap((c) => c.members.map(memberKey)));
+    const unlinked = loops.filter(
+      (l) => (l.status ?? "open") === "open" && l.surfaceType !== "info_to_save" && existing.has(memberKey(l)) && !linked.has(memberKey(l))
+    );
+    if (unlinked.length) {
+      await pool.query(
+        "DELETE FROM open_loop_cluster_members WHERE NOT detached AND (loop_id, chat_id) IN (SELECT * FROM unnest($1::text[], $2::text[]))",
+        [unlinked.map((l) => l.id), unlinked.map((l) => l.chatId)]
+      );
+    }
+    for (const { clusterId, members, similarity } of clusters) {
+      const values: string[] = [];
+      const params: any[] = [];
+      let idx = 1;
+      for (const m of members) {
+        values.push(`($${idx++}, $${idx++}, $${idx++}, $${idx++}, false, $${idx++})`);
+        params.push(m.id, m.chatId, clusterId, similarity, now);
+      }
+      await pool.query(
+        `
+        INSERT INTO open_loop_cluster_members (loop_id, chat_id, cluster_id, similarity, detached, linked_ts)
+        VALUES ${values.join(",")}
+        ON CONFLICT (loop_id, chat_id) DO UPDATE
+        SET cluster_id = EXCLUDED.cluster_id, similarity = EXCLUDED.similarity
+        WHERE NOT open_loop_cluster_members.detached
+        `,
+        params
+      );
+    }
+  } catch (err) {
+    console.error("[loopClusters] applyLoopClusters failed", err);
+    return loops;
+  }
+
+  const urgencyRank: Record<string, number> = { high: 3, moderate: 2, low: 1 };
+  const folded = new Map<string, ActiveOpenLoop>();
+  const hidden = new Set<string>();
+  for (const c of clusters) {
+    const [lead, ...rest] = [...c.members].sort(
+      (a, b) =>
+        (urgencyRank[b.urgency] ?? 0) - (urgencyRank[a.urgency] ?? 0) ||
+        (b.importance ?? 0) - (a.importance ?? 0) ||
+        (b.lastSeenTs ?? 0) - (a.lastSeenTs ?? 0)
+    );
+    const sourceChats: ClusterSource[] = c.members.map((m) => ({
+      chatId: m.chatId,
+      displayName: m.displayName ?? fallbackNameFromChatId(m.chatId),
+      loopId: m.id,
+      summary: m.summary,
+      status: m.status ?? "open",
+    }));
+    folded.set(memberKey(lead), { ...lead, clusterId: c.clusterId, sourceChats });
+    for (const m of rest) hidden.add(memberKey(m));
+  }
+  return loops.filter((l) => !hidden.has(memberKey(l))).map((l) => folded.get(memberKey(l)) ?? l);
+}
+
+export async function getLoopCluster(clusterId: string) {
+  const res = await pool.query(
+    `
+    SELECT m.loop_id, m.chat_id, m.similarity, m.detached, m.linked_ts, l.summary, l.status, l.type, l.payload
+    FROM open_loop_cluster_members m
+    LEFT JOIN open_loops l ON l.loop_id = m.loop_id AND l.chat_id = m.chat_id
+    WHERE m.cluster_id = $1
+    ORDER BY m.linked_ts ASC
+    `,
+    [clusterId]
+  );
+  return (res.rows ?? []).map((r: any) => ({
+    loopId: r.loop_id,
+    chatId: r.chat_id,
+    displayName: r.payload?.displayName ?? r.payload?.chatDisplayName ?? fallbackNameFromChatId(r.chat_id),
+    summary: r.summary ?? r.payload?.summary ?? null,
+    type: r.type ?? null,
+    status: r.status ?? null,
+    similarity: r.similarity == null ? null : Number(r.similarity),
+    detached: !!r.detached,
+    linkedTs: Number(r.linked_ts),
+  }));
+}
+
+// Takes a loop out of its cluster for good (the linker skips detached members).
+export async function detachLoopFromCluster(chatId: string, loopId: string): Promise<string | null> {
+  const res = await pool.query(
+    "UPDATE open_loop_cluster_members SET detached = true WHERE loop_id = $1 AND chat_id = $2 AND NOT detached RETURNING cluster_id",
+    [loopId, chatId]
+  );
+  return res.rows?.[0]?.cluster_id ?? null;
+}
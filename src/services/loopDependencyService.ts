@@ -0,0 +1,210 @@
+import { pool } from "../db.js";
+import { fallbackNameFromChatId } from "../utils/displayName.js";
+import { appendLoopEvents, OpenLoopEvent } from "./openLoopsPersistence.js";
+
+// Dependency resolution over taskGoal/dependsOnTaskGoal. A loop that depends on a goal waits on the loops
+// carrying that taskGoal in the same chat (goals are coarse, "send_invoice", so another chat's loop with the
+// same goal is usually a different task), across runs since upstreams are read from
+// open_loops. While any upstream is open the dependent is blocked with blockedBy/blockedReason ("waiting on X");
+// once they are all done or dismissed it unblocks. Dependents with no upstream in the table keep the LLM's
+// own blocked flag (e.g. waiting on the other party).
+
+export type BlockingLoop = { loopId: string; chatId: string; summary: string };
+
+type DependencyNode = {
+  loopId: string;
+  chatId: string;
+  summary: string;
+  status: string;
+  taskGoal: string | null;
+  dependsOnTaskGoal: string | null;
+};
+
+type DependencyResolution = { blocked: boolean; blockedBy: BlockingLoop[]; blockedReason: string | null; upstream: DependencyNode[] };
+
+const isOpen = (status: string | null | undefined) => !status || status === "open";
+
+// Pure: picks the upstreams of a dependent among candidates (same chat only) and derives its blocked state.
+// null = no upstream known.
+export function resolveDependency(dependent: DependencyNode, candidates: DependencyNode[]): DependencyResolution | null {
+  const goal = dependent.dependsOnTaskGoal;
+  if (!goal) return null;
+  const upstream = candidates.filter((c) => c.taskGoal === goal && c.chatId === dependent.chatId && c.loopId !== dependent.loopId);
+  if (!upstream.length) return null;
+  const blockedBy = upstream.filter((u) => isOpen(u.status)).map((u) => ({ loopId: u.loopId, chatId: u.chatId, summary: u.summary }));
+  return {
+    blocked: blockedBy.length > 0,
+    blockedBy,
+    blockedReason: blockedBy.length ? `Waiting on: ${blockedBy.map((b) => b.summary).join("; ")}` : null,
+    upstream,
+  };
+}
+
+function rowToNode(r: any): DependencyNode {
+  const payload = r.payload ?? {};
+  return {
+    loopId: r.loop_id,
+    chatId: r.chat_id,
+    summary: r.summary ?? payload.summary ?? "",
+    status: r.status ?? payload.status ?? "open",
+    taskGoal: payload.taskGoal ?? null,
+    dependsOnTaskGoal: payload.dependsOnTaskGoal ?? null,
+  };
+}
+
+async function loadUpstreamCandidates(goals: string[]): Promise<DependencyNode[]> {
+  if (!goals.length) return [];
+  const res = await pool.query(
+    `
+    SELECT DISTINCT ON (loop_id, chat_id) loop_id, chat_id, summary, status, payload
+    FROM open_loops
+    WHERE payload->>'taskGoal' = ANY($1::text[])
+    ORDER BY loop_id, chat_id, updated_at DESC
+    `,
+    [Array.from(new Set(goals))]
+  );
+  return (res.rows ?? []).map(rowToNode);
+}
+
+// Resolves the loops of an EA run before they are saved, so the stored blocked flag already reflects
+// upstreams from earlier runs and doesn't flip back and forth between runs. Loops in the run win over stored rows.
+export async function applyLoopDependencies<
+  T extends { id?: string; chatId?: string; summary: string; status: string; taskGoal?: string; dependsOnTaskGoal?: string; blocked?: boolean }
+>(loops: T[]): Promise<(T & { blockedBy?: BlockingLoop[]; blockedReason?: string })[]> {
+  const goals = loops.map((l) => l.dependsOnTaskGoal).filter((g): g is string => !!g);
+  if (!goals.length) return loops;
+  const inRun: DependencyNode[] = loops.map((l) => ({
+    loopId: l.id ?? "",
+    chatId: l.chatId ?? "unknown",
+    summary: l.summary,
+    status: l.status,
+    taskGoal: l.taskGoal ?? null,
+    dependsOnTaskGoal: l.dependsOnTaskGoal ?? null,
+  }));
+  let stored: DependencyNode[] = [];
+  try {
+    const runKeys = new Set(inRun.map((n) => `${n.chatId}|${n.loopId}`));
+    stored = (await loadUpstreamCandidates(goals)).filter((n) => !runKeys.has(`${n.chatId}|${n.loopId}`));
+  } catch (err) {
+    console.error("[loopDependencies] applyLoopDependencies failed", err);
+  }
+  return loops.map((l, i) => {
+    const resolution = resolveDependency(inRun[i], [...inRun, ...stored]);
+    if (!resolution) return l;
+    return {
+      ...l,
+      blocked: resolution.blocked,
+      blockedBy: resolution.blockedBy,
+      blockedReason: resolution.blockedReason ?? undefined,
+    };
+  });
+}
+
+// Re-resolves every open dependent in open_loops (after a user complete/dismiss or an EA run) and writes the flips
+// into the payload, with an "updated" event per flip. Returns how many loops changed.
+export async function resolveLoopDependencies(audit: { runId?: number | null } = {}): Promise<number> {
+  try {
+    const dependents = await pool
+      .query(
+        `
+        SELECT loop_id, chat_id, source, summary, status, payload
+        FROM open_loops
+        WHERE payload->>'dependsOnTaskGoal' IS NOT NULL AND (status IS NULL OR status = 'open')
+        `
+      )
+      .then((r) => r.rows ?? []);
+    if (!dependents.length) return 0;
+    const candidates = await loadUpstreamCandidates(dependents.map((r: any) => r.payload.dependsOnTaskGoal));
+    const events: OpenLoopEvent[] = [];
+    const now = Date.now();
+    for (const r of dependents) {
+      const resolution = resolveDependency(rowToNode(r), candidates);
+      if (!resolution) continue;
+      const prevBlocked = r.payload?.blocked === true;
+      const prevBlockedBy = JSON.stringify(r.payload?.blockedBy ?? []);
+      if (prevBlocked === resolution.blocked && prevBlockedBy === JSON.stringify(resolution.blockedBy)) continue;
+      await pool.query(
+        `
+        UPDATE open_loops
+        SET payload = payload || jsonb_build_object('blocked', $4::boolean, 'blockedBy', $5::jsonb, 'blockedReason', $6::text),
+            updated_at = now()
+        WHERE loop_id = $1 AND chat_id = $2 AND source = $3
+        `,
+        [r.loop_id, r.chat_id, r.source, resolution.blocked, JSON.stringify(resolution.blockedBy), resolution.blockedReason]
+      );
+      if (prevBlocked === resolution.blocked) continue;
+      events.push({
+        loopId: r.loop_id,
+        chatId: r.chat_id,
+        eventType: "updated",
+        actor: "dependency",
+        runId: audit.runId ?? null,
+        ts: now,
+        changes: { blocked: { from: prevBlocked, to: resolution.blocked } },
+        evidence: {
+          dependsOnTaskGoal: r.payload.dependsOnTaskGoal,
+          upstream: resolution.upstream.map((u) => ({ loopId: u.loopId, chatId: u.chatId, status: u.status })),
+        },
+      });
+    }
+    await appendLoopEvents(events);
+    return events.length;
+  } catch (err) {
+    console.error("[loopDependencies] resolveLoopDependencies failed", err);
+    return 0;
+  }
+}
+
+// Nodes are loops that take part in a dependency (have a dependent or depend on something); edges point
+// from the upstream loop to the loop waiting on it. Goals nobody carries are listed as unresolved.
+export async function getLoopGraph(opts: { days: number; chatId?: string | null; includeClosed?: boolean }) {
+  const since = Date.now() - opts.days * 24 * 60 * 60 * 1000;
+  const rows = await pool
+    .query(
+      `
+      SELECT DISTINCT ON (loop_id, chat_id) loop_id, chat_id, summary, type, status, payload
+      FROM open_loops
+      WHERE (payload->>'taskGoal' IS NOT NULL OR payload->>'dependsOnTaskGoal' IS NOT NULL)
+        AND (last_seen_ts IS NULL OR last_seen_ts >= $1)
+        AND ($2::boolean OR status IS NULL OR status = 'open')
+      ORDER BY loop_id, chat_id, updated_at DESC
+      `,
+      [since, !!opts.includeClosed]
+    )
+    .then((r) => r.rows ?? []);
+  const nodes = rows.map(rowToNode);
+  const edges: { from: string; to: string; goal: string; satisfied: boolean }[] = [];
+  const unresolved: { loopId: string; chatId: string; dependsOnTaskGoal: string }[] = [];
+  for (const n of nodes) {
+    if (!n.dependsOnTaskGoal) continue;
+    const resolution = resolveDependency(n, nodes);
+    if (!resolution) {
+      unresolved.push({ loopId: n.loopId, chatId: n.chatId, dependsOnTaskGoal: n.dependsOnTaskGoal });
+      continue;
+    }
+    for (const u of resolution.upstream) edges.push({ from: u.loopId, to: n.loopId, goal: n.dependsOnTaskGoal, satisfied: !isOpen(u.status) });
+  }
+  const scoped = (n: DependencyNode) => !opts.chatId || n.chatId === opts.chatId;
+  const keepIds = new Set(
+    edges.filter((e) => nodes.some((n) => scoped(n) && (n.loopId === e.from || n.loopId === e.to))).flatMap((e) => [e.from, e.to])
+  );
+  for (const u of unresolved) if (!opts.chatId || u.chatId === opts.chatId) keepIds.add(u.loopId);
+  const byId = new Map(rows.map((r: any) => [r.loop_id, r]));
+  return {
+    nodes: nodes
+      .filter((n) => keepIds.has(n.loopId))
+      .map((n) => {
+        const payload = byId.get(n.loopId)?.payload ?? {};
+        return {
+          ...n,
+          id: n.loopId,
+          type: byId.get(n.loopId)?.type ?? payload.type ?? null,
+          displayName: payload.displayName ?? payload.chatDisplayName ?? fallbackNameFromChatId(n.chatId),
+          blocked: payload.blocked === true,
+          blockedReason: payload.blockedReason ?? null,
+        };
+      }),
+    edges: edges.filter((e) => keepIds.has(e.from) && keepIds.has(e.to)),
+    unresolved: unresolved.filter((u) => keepIds.has(u.loopId)),
+  };
+}
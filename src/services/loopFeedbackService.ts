@@ -0,0 +1,183 @@
+import { pool } from "../db.js";
+
+// User actions on loops as training signal. Every complete/dismiss/snooze is logged with the loop's type,
+// intent and the sanitizer context it came out of; per chat+intent counts then drive the EA sanitizer
+// (intents dismissed OPEN_LOOPS_FEEDBACK_DISMISS_THRESHOLD times in a chat are dropped, intents the user keeps
+// completing get an importance bump) and the prompt's few-shot examples.
+
+export type LoopAction = "complete" | "dismiss" | "snooze";
+
+export const feedbackConfig = {
+  enabled: String(process.env.OPEN_LOOPS_FEEDBACK_ENABLED ?? "true").toLowerCase() === "true",
+  dismissThreshold: (() => {
+    const n = Number(process.env.OPEN_LOOPS_FEEDBACK_DISMISS_THRESHOLD ?? 3);
+    return Number.isInteger(n) && n > 0 ? n : 3;
+  })(),
+  boostThreshold: (() => {
+    const n = Number(process.env.OPEN_LOOPS_FEEDBACK_BOOST_THRESHOLD ?? 2);
+    return Number.isInteger(n) && n > 0 ? n : 2;
+  })(),
+  windowDays: (() => {
+    const n = Number(process.env.OPEN_LOOPS_FEEDBACK_WINDOW_DAYS ?? 90);
+    return Number.isFinite(n) && n > 0 ? n : 90;
+  })(),
+  examples: 3,
+};
+
+export type IntentFeedbackStats = {
+  chatId: string | null;
+  intentKey: string;
+  completed: number;
+  dismissed: number;
+  snoozed: number;
+  lastTs: number;
+  suppressed: boolean;
+  boosted: boolean;
+};
+
+export type FeedbackExample = { type: string | null; summary: string };
+
+export type ChatFeedback = {
+  suppressedIntents: Set<string>;
+  boostedIntents: Set<string>;
+  examples: { completed: FeedbackExample[]; dismissed: FeedbackExample[] };
+};
+
+export function emptyChatFeedback(): ChatFeedback {
+  return { suppressedIntents: new Set(), boostedIntents: new Set(), examples: { completed: [], dismissed: [] } };
+}
+
+function classify(completed: number, dismissed: number) {
+  return {
+    suppressed: dismissed >= feedbackConfig.dismissThreshold && dismissed > completed,
+    boosted: completed >= feedbackConfig.boostThreshold && dismissed === 0,
+  };
+}
+
+// Snapshot the loop as the user saw it; failures are logged and swallowed so the action itself still succeeds.
+export async function recordLoopAction(chatId: string, loopId: string, action: LoopAction, ts = Date.now()): Promise<void> {
+  try {
+    const loop = await pool
+      .query("SELECT type, summary, confidence, payload FROM open_loops WHERE chat_id = $1 AND loop_id = $2 ORDER BY updated_at DESC LIMIT 1", [
+        chatId,
+        loopId,
+      ])
+      .then((r) => r.rows?.[0] ?? null);
+    const payload = loop?.payload ?? {};
+    const run = await pool
+      .query("SELECT id, run_ts, dropped FROM open_loop_runs WHERE chat_id = $1 ORDER BY run_ts DESC LIMIT 1", [chatId])
+      .then((r) => r.rows?.[0] ?? null);
+    const droppedByReason: Record<string, number> = {};
+    for (const d of (run?.dropped as any[]) ?? []) {
+      const reason = typeof d?.reason === "string" ? d.reason : "unknown";
+      droppedByReason[reason] = (droppedByReason[reason] ?? 0) + 1;
+    }
+    const dropContext = {
+      evidenceInferred: payload.evidenceInferred === true,
+      promptVersion: payload.promptVersion ?? null,
+      lastRunId: run?.id == null ? null : Number(run.id),
+      lastRunTs: run?.run_ts == null ? null : Number(run.run_ts),
+      droppedByReason,
+    };
+    await pool.query(
+      `
+      INSERT INTO open_loop_user_actions (loop_id, chat_id, action, loop_type, intent_key, task_goal, summary, confidence, drop_context, ts)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `,
+      [
+        loopId,
+        chatId,
+        action,
+        loop?.type ?? payload.type ?? null,
+        payload.intentKey ?? payload.taskGoal ?? null,
+        payload.taskGoal ?? null,
+        loop?.summary ?? payload.summary ?? null,
+        loop?.confidence ?? payload.confidence ?? null,
+        JSON.stringify(dropContext),
+        ts,
+      ]
+    );
+  } catch (err) {
+    console.error("[loopFeedback] recordLoopAction failed", err);
+  }
+}
+
+// Forgets actions that were undone (bulk undo): rows are matched on loop, action and the exact ts they were recorded with.
+export async function removeLoopActions(loops: { chatId: string; loopId: string }[], action: LoopAction, ts: number): Promise<void> {
+  if (!loops.length) return;
+  try {
+    await pool.query(
+      "DELETE FROM open_loop_user_actions WHERE action = $1 AND ts = $2 AND (chat_id || '|' || loop_id) = ANY($3::text[])",
+      [action, ts, loops.map((l) => `${l.chatId}|${l.loopId}`)]
+    );
+  } catch (err) {
+    console.error("[loopFeedback] removeLoopActions failed", err);
+  }
+}
+
+// Per chat+intent (or, with byChat=false, per intent across chats) over the feedback window.
+export async function getFeedbackStats(opts: { chatId?: string | null; byChat?: boolean; limit?: number } = {}): Promise<IntentFeedbackStats[]> {
+  const byChat = opts.byChat !== false;
+  try {
+    const res = await pool.query(
+      `
+      SELECT ${byChat ? "chat_id" : "NULL::text AS chat_id"}, intent_key,
+             COUNT(*) FILTER (WHERE action = 'complete') AS completed,
+             COUNT(*) FILTER (WHERE action = 'dismiss') AS dismissed,
+             COUNT(*) FILTER (WHERE action = 'snooze') AS snoozed,
+             MAX(ts) AS last_ts
+      FROM open_loop_user_actions
+      WHERE intent_key IS NOT NULL AND ts >= $1 AND ($2::text IS NULL OR chat_id = $2)
+      GROUP BY ${byChat ? "chat_id, intent_key" : "intent_key"}
+      ORDER BY last_ts DESC
+      LIMIT $3
+      `,
+      [Date.now() - feedbackConfig.windowDays * 24 * 60 * 60 * 1000, opts.chatId ?? null, opts.limit ?? 200]
+    );
+    return (res.rows ?? []).map((r: any) => {
+      const completed = Number(r.completed ?? 0);
+      const dismissed = Number(r.dismissed ?? 0);
+      return {
+        chatId: r.chat_id ?? null,
+        intentKey: r.intent_key,
+        completed,
+        dismissed,
+        snoozed: Number(r.snoozed ?? 0),
+        lastTs: Number(r.last_ts),
+        ...classify(completed, dismissed),
+      };
+    });
+  } catch (err) {
+    console.error("[loopFeedback] getFeedbackStats failed", err);
+    return [];
+  }
+}
+
+export async function loadChatFeedback(chatId: string): Promise<ChatFeedback> {
+  const feedback = emptyChatFeedback();
+  if (!feedbackConfig.enabled) return feedback;
+  const stats = await getFeedbackStats({ chatId, limit: 500 });
+  for (const s of stats) {
+    if (s.suppressed) feedback.suppressedIntents.add(s.intentKey);
+    if (s.boosted) feedback.boostedIntents.add(s.intentKey);
+  }
+  try {
+    const res = await pool.query(
+      `
+      SELECT DISTINCT ON (action, summary) action, loop_type, summary, ts
+      FROM open_loop_user_actions
+      WHERE chat_id = $1 AND action IN ('complete', 'dismiss') AND summary IS NOT NULL AND ts >= $2
+      ORDER BY action, summary, ts DESC
+      `,
+      [chatId, Date.now() - feedbackConfig.windowDays * 24 * 60 * 60 * 1000]
+    );
+    const rows = (res.rows ?? []).sort((a: any, b: any) => Number(b.ts) - Number(a.ts));
+    for (const r of rows) {
+      const bucket = r.action === "complete" ? feedback.examples.completed : feedback.examples.dismissed;
+      if (bucket.length < feedbackConfig.examples) bucket.push({ type: r.loop_type ?? null, summary: r.summary });
+    }
+  } catch (err) {
+    console.error("[loopFeedback] loadChatFeedback examples failed", err);
+  }
+  return feedback;
+}
@@ -0,0 +1,99 @@
+import crypto from "node:crypto";
+import axios from "axios";
+import { sendSmtpMail } from "../utils/smtp.js";
+import { isServiceAOutcomeUnknown, sendWhatsAppMessage } from "../whatsappClient.js";
+
+export type NotificationChannelId = "webhook" | "smtp" | "whatsapp";
+
+export type Notification = {
+  trigger: string;
+  dedupeKey: string;
+  title: string;
+  body: string;
+  loopId?: string | null;
+  chatId?: string | null;
+  data?: Record<string, any>;
+};
+
+export type NotificationChannel = {
+  id: NotificationChannelId;
+  // false when the channel's env isn't set; the dispatcher skips it without logging a delivery
+  configured: boolean;
+  send(n: Notification): Promise<{ ref?: string | null }>;
+  // true when a failed send may still have been delivered; the dispatcher then doesn't retry it
+  outcomeUnknown?(err: unknown): boolean;
+};
+
+const list = (v: string | undefined) =>
+  String(v ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+// POST { trigger, title, body, loopId, chatId, data, ts } as JSON. With NOTIFY_WEBHOOK_SECRET set the raw body
+// is signed: X-Notify-Signature: sha256=<hex hmac>.
+const webhookUrl = process.env.NOTIFY_WEBHOOK_URL ?? "";
+const webhookSecret = process.env.NOTIFY_WEBHOOK_SECRET ?? "";
+
+const webhookChannel: NotificationChannel = {
+  id: "webhook",
+  configured: !!webhookUrl,
+  async send(n) {
+    const body = JSON.stringify({
+      trigger: n.trigger,
+      title: n.title,
+      body: n.body,
+      loopId: n.loopId ?? null,
+      chatId: n.chatId ?? null,
+      data: n.data ?? {},
+      ts: Date.now(),
+    });
+    const headers: Record<string, string> = { "Content-Type": "application/json", "X-Notify-Key": n.dedupeKey };
+    if (webhookSecret) headers["X-Notify-Signature"] = `sha256=${crypto.createHmac("sha256", webhookSecret).update(body).digest("hex")}`;
+    const res = await axios.post(webhookUrl, body, { headers, timeout: 10_000 });
+    return { ref: `http_${res.status}` };
+  },
+};
+
+const smtpConfig = {
+  host: process.env.SMTP_HOST ?? "",
+  port: Number(process.env.SMTP_PORT ?? 587),
+  secure: String(process.env.SMTP_SECURE ?? "false").toLowerCase() === "true",
+  user: process.env.SMTP_USER || undefined,
+  pass: process.env.SMTP_PASS || undefined,
+};
+const emailFrom = process.env.NOTIFY_EMAIL_FROM ?? smtpConfig.user ?? "";
+const emailTo = list(process.env.NOTIFY_EMAIL_TO);
+
+const smtpChannel: NotificationChannel = {
+  id: "smtp",
+  configured: !!smtpConfig.host && !!emailFrom && emailTo.length > 0,
+  async send(n) {
+    const res = await sendSmtpMail(smtpConfig, { from: emailFrom, to: emailTo, subject: n.title, text: n.body });
+    return { ref: res.response.slice(0, 200) };
+  },
+};
+
+// WhatsApp-to-self: a message into the user's own chat (or any chat they pick) through Service A.
+const selfChatId = process.env.NOTIFY_WHATSAPP_SELF_CHAT_ID ?? "";
+
+const whatsappChannel: NotificationChannel = {
+  id: "whatsapp",
+  configured: !!selfChatId,
+  async send(n) {
+    const res = await sendWhatsAppMessage(selfChatId, `*${n.title}*\n${n.body}`);
+    return { ref: res?.id ?? null };
+  },
+  // sends aren't idempotent on Service A's side, so a timed-out send is not retried
+  outcomeUnknown: isServiceAOutcomeUnknown,
+};
+
+export const NOTIFICATION_CHANNELS: Record<NotificationChannelId, NotificationChannel> = {
+  webhook: webhookChannel,
+  smtp: smtpChannel,
+  whatsapp: whatsappChannel,
+};
+
+export function isNotificationChannelId(id: string): id is NotificationChannelId {
+  return Object.prototype.hasOwnProperty.call(NOTIFICATION_CHANNELS, id);
+}
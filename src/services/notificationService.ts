@@ -0,0 +1,367 @@
+import { pool } from "../db.js";
+import { fallbackNameFromChatId } from "../utils/displayName.js";
+import { formatDateInTz, getTzOffsetMinutes, userTimeZone } from "../utils/when.js";
+import { getCuratedPlateOpenLoops } from "./openLoopsV2Service.js";
+import { isNotificationChannelId, Notification, NOTIFICATION_CHANNELS, NotificationChannelId } from "./notificationChannels.js";
+
+// Reminder dispatcher, run from the orchestrator tick: turns open loops into notifications (due soon,
+// high-urgency and untouched, morning plate) and fans them out to the configured channels. Every attempt is
+// logged in notification_deliveries, which doubles as the dedupe and rate-limit ledger.
+
+export type NotificationTrigger = "LOOP_DUE_SOON" | "HIGH_URGENCY_STALE" | "MORNING_PLATE" | "TEST";
+export type DeliveryStatus = "sent" | "failed" | "rate_limited";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+// error prefix for a failure that may have been delivered anyway; such a key is never retried
+const OUTCOME_UNKNOWN = "outcome_unknown";
+const MORNING_WINDOW_HOURS = 3;
+
+function parseQuietHours(raw: string): { start: number; end: number } | null {
+  const m = raw.trim().match(/^(\d{1,2})\s*-\s*(\d{1,2})$/);
+  if (!m) return null;
+  const start = Number(m[1]);
+  const end = Number(m[2]);
+  if (start > 23 || end > 23 || start === end) return null;
+  return { start, end };
+}
+
+function parseRateLimits(raw: string): Record<NotificationChannelId, number> {
+  const limits: Record<NotificationChannelId, number> = { webhook: 30, smtp: 10, whatsapp: 10 };
+  for (const part of raw.split(",")) {
+    const [k, v] = part.split("=").map((s) => s.trim());
+    const n = Number(v);
+    if (k && isNotificationChannelId(k) && Number.isFinite(n) && n >= 0) limits[k] = Math.floor(n);
+  }
+  return limits;
+}
+
+export const notifyConfig = {
+  enabled: String(process.env.NOTIFY_ENABLED ?? "false").toLowerCase() === "true",
+  channels: String(process.env.NOTIFY_CHANNELS ?? "webhook,smtp,whatsapp")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(isNotificationChannelId),
+  dueLeadMs: (() => {
+    const n = Number(process.env.NOTIFY_DUE_LEAD_MINUTES ?? 60);
+    return (Number.isFinite(n) && n > 0 ? Math.min(n, 24 * 60) : 60) * 60_000;
+  })(),
+  staleMs: (() => {
+    const n = Number(process.env.NOTIFY_STALE_HOURS ?? 24);
+    return (Number.isFinite(n) && n > 0 ? n : 24) * HOUR_MS;
+  })(),
+  morningHour: (() => {
+    const n = Number(process.env.NOTIFY_MORNING_HOUR ?? 8);
+    return Number.isInteger(n) && n >= 0 && n <= 23 ? n : 8;
+  })(),
+  // "22-7" = 22:00 to 06:59 in the user's zone; empty disables
+  quietHours: parseQuietHours(process.env.NOTIFY_QUIET_HOURS ?? "22-7"),
+  // max sent deliveries per channel per rolling hour
+  rateLimits: parseRateLimits(process.env.NOTIFY_RATE_LIMITS ?? ""),
+  tz: userTimeZone,
+};
+
+function localHour(now: number, tz: string): number {
+  const local = new Date(now + getTzOffsetMinutes(tz, new Date(now)) * 60_000);
+  return local.getUTCHours();
+}
+
+export function isQuietHour(now: number, cfg = notifyConfig): boolean {
+  const q = cfg.quietHours;
+  if (!q) return false;
+  const h = localHour(now, cfg.tz);
+  return q.start < q.end ? h >= q.start && h < q.end : h >= q.start || h < q.end;
+}
+
+function activeChannels(only?: NotificationChannelId[]) {
+  return notifyConfig.channels
+    .filter((id) => !only?.length || only.includes(id))
+    .map((id) => NOTIFICATION_CHANNELS[id])
+    .filter((c) => c.configured);
+}
+
+function loopLabel(r: any): string {
+  const payload = r.payload ?? {};
+  const name = payload.displayName ?? payload.chatDisplayName ?? fallbackNameFromChatId(r.chat_id ?? "unknown");
+  return `${name}: ${r.summary ?? payload.summary ?? "open loop"}`;
+}
+
+function formatLocalTime(date: Date, tz: string): string {
+  return new Intl.DateTimeFormat("en-GB", { timeZone: tz, hour: "2-digit", minute: "2-digit", hour12: false }).format(date);
+}
+
+async function collectDueSoon(now: number): Promise<Notification[]> {
+  const rows = await pool
+    .query(
+      `
+      SELECT DISTINCT ON (loop_id) loop_id, chat_id, summary, type, when_ts, payload
+      FROM open_loops
+      WHERE (status IS NULL OR status = 'open')
+        AND (snooze_until IS NULL OR snooze_until <= $1)
+        AND has_time IS TRUE
+        AND when_ts >= to_timestamp($1 / 1000.0)
+        AND when_ts <= to_timestamp($2 / 1000.0)
+      ORDER BY loop_id, updated_at DESC
+      LIMIT 50
+      `,
+      [now, now + notifyConfig.dueLeadMs]
+    )
+    .then((r) => r.rows ?? []);
+  return rows.map((r: any) => {
+    const when = new Date(r.when_ts);
+    const minutes = Math.max(0, Math.round((when.getTime() - now) / 60_000));
+    return {
+      trigger: "LOOP_DUE_SOON",
+      // keyed on the due time so a rescheduled loop reminds again
+      dedupeKey: `due:${r.loop_id}:${when.getTime()}`,
+      title: `Due in ${minutes} min: ${r.summary ?? "open loop"}`,
+      body: `${loopLabel(r)}\nDue at ${formatLocalTime(when, notifyConfig.tz)} (${notifyConfig.tz}).`,
+      loopId: r.loop_id,
+      chatId: r.chat_id,
+      data: { type: r.type, when: when.toISOString() },
+    };
+  });
+}
+
+// High urgency, open for at least NOTIFY_STALE_HOURS and with no user action on it in that window.
+async function collectStaleHighUrgency(now: number): Promise<Notification[]> {
+  const cutoff = now - notifyConfig.staleMs;
+  const rows = await pool
+    .query(
+      `
+      SELECT DISTINCT ON (l.loop_id) l.loop_id, l.chat_id, l.summary, l.type, l.first_seen_ts, l.payload
+      FROM open_loops l
+      WHERE (l.status IS NULL OR l.status = 'open')
+        AND (l.snooze_until IS NULL OR l.snooze_until <= $1)
+        AND l.urgency = 'high'
+        AND l.first_seen_ts IS NOT NULL AND l.first_seen_ts <= $2
+        AND NOT EXISTS (
+          SELECT 1 FROM open_loop_events e
+          WHERE e.loop_id = l.loop_id AND e.actor = 'user' AND e.ts >= $2
+        )
+      ORDER BY l.loop_id, l.updated_at DESC
+      LIMIT 20
+      `,
+      [now, cutoff]
+    )
+    .then((r) => r.rows ?? []);
+  const date = formatDateInTz(new Date(now), notifyConfig.tz);
+  return rows.map((r: any) => {
+    const ageHours = Math.floor((now - Number(r.first_seen_ts)) / HOUR_MS);
+    return {
+      trigger: "HIGH_URGENCY_STALE",
+      dedupeKey: `stale:${r.loop_id}:${date}`,
+      title: `Still open after ${ageHours}h: ${r.summary ?? "open loop"}`,
+      body: `${loopLabel(r)}\nHigh urgency and untouched for ${ageHours} hours.`,
+      loopId: r.loop_id,
+      chatId: r.chat_id,
+      data: { type: r.type, firstSeenTs: Number(r.first_seen_ts) },
+    };
+  });
+}
+
+// Once per local day, in the few hours after NOTIFY_MORNING_HOUR (so a late restart doesn't send it at night).
+async function collectMorningPlate(now: number): Promise<Notification[]> {
+  const h = localHour(now, notifyConfig.tz);
+  if (h < notifyConfig.morningHour || h >= notifyConfig.morningHour + MORNING_WINDOW_HOURS) return [];
+  const plate = await getCuratedPlateOpenLoops(7);
+  const loops = plate.openLoops.filter((l) => l.status === "open" || !l.status);
+  if (!loops.length) return [];
+  const date = formatDateInTz(new Date(now), notifyConfig.tz);
+  const lines = loops.map((l) => `• [${l.lane ?? "now"}] ${l.displayName ?? fallbackNameFromChatId(l.chatId)}: ${l.summary}`);
+  return [
+    {
+      trigger: "MORNING_PLATE",
+      dedupeKey: `plate:${date}`,
+      title: `Your plate for ${date}: ${loops.length} open loop${loops.length === 1 ? "" : "s"}`,
+      body: lines.join("\n"),
+      data: { date, loopIds: loops.map((l) => l.id) },
+    },
+  ];
+}
+
+async function recordDelivery(
+  channel: NotificationChannelId,
+  n: Notification,
+  status: DeliveryStatus,
+  extra: { error?: string | null; ref?: string | null } = {}
+) {
+  try {
+    await pool.query(
+      `
+      INSERT INTO notification_deliveries (channel, trigger, dedupe_key, loop_id, chat_id, title, body, status, error, ref, created_ts)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      `,
+      [channel, n.trigger, n.dedupeKey, n.loopId ?? null, n.chatId ?? null, n.title, n.body, status, extra.error ?? null, extra.ref ?? null, Date.now()]
+    );
+  } catch (err) {
+    console.error("[notify] recordDelivery failed", err);
+  }
+}
+
+type DeliveryHistory = { sent: boolean; failures: number; outcomeUnknown: boolean; rateLimitedRecently: boolean };
+
+async function deliveryHistory(channel: NotificationChannelId, dedupeKey: string, now: number): Promise<DeliveryHistory> {
+  const res = await pool.query(
+    `
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'sent') AS sent,
+      COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+      COUNT(*) FILTER (WHERE status = 'failed' AND error LIKE $4) AS outcome_unknown,
+      COUNT(*) FILTER (WHERE status = 'rate_limited' AND created_ts >= $3) AS rate_limited
+    FROM notification_deliveries
+    WHERE channel = $1 AND dedupe_key = $2
+    `,
+    [channel, dedupeKey, now - HOUR_MS, `${OUTCOME_UNKNOWN}:%`]
+  );
+  const r = res.rows?.[0] ?? {};
+  return {
+    sent: Number(r.sent ?? 0) > 0,
+    failures: Number(r.failed ?? 0),
+    outcomeUnknown: Number(r.outcome_unknown ?? 0) > 0,
+    rateLimitedRecently: Number(r.rate_limited ?? 0) > 0,
+  };
+}
+
+async function sentInLastHour(channel: NotificationChannelId, now: number): Promise<number> {
+  const res = await pool.query("SELECT COUNT(*) AS n FROM notification_deliveries WHERE channel = $1 AND status = 'sent' AND created_ts >= $2", [
+    channel,
+    now - HOUR_MS,
+  ]);
+  return Number(res.rows?.[0]?.n ?? 0);
+}
+
+export type DispatchOutcome = {
+  channel: NotificationChannelId;
+  trigger: string;
+  dedupeKey: string;
+  status: DeliveryStatus | "skipped" | "would_send";
+  reason?: string;
+  error?: string;
+};
+
+export type DispatchResult = {
+  quiet: boolean;
+  channels: NotificationChannelId[];
+  notifications: number;
+  outcomes: DispatchOutcome[];
+};
+
+export async function runNotificationDispatch(now = Date.now(), opts: { dryRun?: boolean; force?: boolean } = {}): Promise<DispatchResult> {
+  const channels = activeChannels();
+  const base = { channels: channels.map((c) => c.id), outcomes: [] as DispatchOutcome[] };
+  if (!opts.force && isQuietHour(now)) return { ...base, quiet: true, notifications: 0 };
+  if (!channels.length) return { ...base, quiet: false, notifications: 0 };
+
+  const notifications = [...(await collectDueSoon(now)), ...(await collectStaleHighUrgency(now)), ...(await collectMorningPlate(now))];
+  const sentThisHour = new Map<NotificationChannelId, number>();
+  for (const c of channels) sentThisHour.set(c.id, await sentInLastHour(c.id, now));
+
+  for (const n of notifications) {
+    for (const channel of channels) {
+      const outcome: DispatchOutcome = { channel: channel.id, trigger: n.trigger, dedupeKey: n.dedupeKey, status: "skipped" };
+      base.outcomes.push(outcome);
+      const history = await deliveryHistory(channel.id, n.dedupeKey, now);
+      if (history.sent) {
+        outcome.reason = "already_sent";
+        continue;
+      }
+      if (history.outcomeUnknown) {
+        outcome.reason = OUTCOME_UNKNOWN;
+        continue;
+      }
+      if (history.failures >= MAX_ATTEMPTS) {
+        outcome.reason = "max_attempts";
+        continue;
+      }
+      if ((sentThisHour.get(channel.id) ?? 0) >= notifyConfig.rateLimits[channel.id]) {
+        outcome.status = "rate_limited";
+        // one ledger row per key per hour, not one per tick
+        if (!opts.dryRun && !history.rateLimitedRecently) await recordDelivery(channel.id, n, "rate_limited");
+        continue;
+      }
+      if (opts.dryRun) {
+        outcome.status = "would_send";
+        continue;
+      }
+      try {
+        const res = await channel.send(n);
+        outcome.status = "sent";
+        sentThisHour.set(channel.id, (sentThisHour.get(channel.id) ?? 0) + 1);
+        await recordDelivery(channel.id, n, "sent", { ref: res.ref ?? null });
+      } catch (err: any) {
+        outcome.status = "failed";
+        outcome.error = err?.message ?? String(err);
+        if (channel.outcomeUnknown?.(err)) {
+          outcome.reason = OUTCOME_UNKNOWN;
+          outcome.error = `${OUTCOME_UNKNOWN}: ${outcome.error}`;
+        }
+        await recordDelivery(channel.id, n, "failed", { error: outcome.error });
+      }
+    }
+  }
+
+  return { ...base, quiet: false, notifications: notifications.length };
+}
+
+// Bypasses quiet hours, dedupe and rate limits; still logged so the ledger shows it.
+export async function sendTestNotification(channelId: NotificationChannelId): Promise<DispatchOutcome> {
+  const channel = NOTIFICATION_CHANNELS[channelId];
+  const n: Notification = {
+    trigger: "TEST",
+    dedupeKey: `test:${Date.now()}`,
+    title: "wa-intel test notification",
+    body: `Channel ${channelId} is configured and reachable.`,
+  };
+  if (!channel.configured) return { channel: channelId, trigger: n.trigger, dedupeKey: n.dedupeKey, status: "skipped", reason: "not_configured" };
+  try {
+    const res = await channel.send(n);
+    await recordDelivery(channelId, n, "sent", { ref: res.ref ?? null });
+    return { channel: channelId, trigger: n.trigger, dedupeKey: n.dedupeKey, status: "sent" };
+  } catch (err: any) {
+    const error = err?.message ?? String(err);
+    await recordDelivery(channelId, n, "failed", { error });
+    return { channel: channelId, trigger: n.trigger, dedupeKey: n.dedupeKey, status: "failed", error };
+  }
+}
+
+export async function listNotificationDeliveries(filter: { channel?: string; status?: string; limit?: number } = {}) {
+  try {
+    const res = await pool.query(
+      `
+      SELECT id, channel, trigger, dedupe_key, loop_id, chat_id, title, body, status, error, ref, created_ts
+      FROM notification_deliveries
+      WHERE ($1::text IS NULL OR channel = $1) AND ($2::text IS NULL OR status = $2)
+      ORDER BY created_ts DESC, id DESC
+      LIMIT $3
+      `,
+      [filter.channel ?? null, filter.status ?? null, filter.limit ?? 50]
+    );
+    return (res.rows ?? []).map((r: any) => ({
+      id: Number(r.id),
+      channel: r.channel,
+      trigger: r.trigger,
+      dedupeKey: r.dedupe_key,
+      loopId: r.loop_id ?? null,
+      chatId: r.chat_id ?? null,
+      title: r.title,
+      body: r.body,
+      status: r.status as DeliveryStatus,
+      error: r.error ?? null,
+      ref: r.ref ?? null,
+      createdTs: Number(r.created_ts),
+    }));
+  } catch (err) {
+    console.error("[notify] listNotificationDeliveries failed", err);
+    return [];
+  }
+}
+
+export function describeNotificationChannels() {
+  return (Object.keys(NOTIFICATION_CHANNELS) as NotificationChannelId[]).map((id) => ({
+    id,
+    configured: NOTIFICATION_CHANNELS[id].configured,
+    enabled: notifyConfig.channels.includes(id),
+    rateLimitPerHour: notifyConfig.rateLimits[id],
+  }));
+}
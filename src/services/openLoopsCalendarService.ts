@@ -0,0 +1,110 @@
+import { pool } from "../db.js";
+import { buildIcsCalendar, escapeIcsText, formatIcsDate, formatIcsLocal, formatIcsUtc } from "../utils/ical.js";
+import { fallbackNameFromChatId } from "../utils/displayName.js";
+import { formatRRule, parseRRule } from "../utils/recurrence.js";
+import { computeLane } from "./openLoopsV2Service.js";
+
+type Lane = "now" | "later" | "backlog";
+
+const EVENT_MINUTES = 60;
+const LANE_PRIORITY: Record<Lane, number> = { now: 1, later: 5, backlog: 9 };
+
+export type CalendarFeedOptions = { tz: string; lanes?: Lane[] | null; now?: number };
+
+// Dated open loops (when_ts / when_date) as an iCalendar feed: event_date -> VEVENT, everything else -> VTODO.
+// UIDs are the loop's stableLoopId so re-fetches update rather than duplicate entries; recurring loops carry an
+// RRULE under their series id, so only the earliest open occurrence is emitted. Snoozed, done and dismissed
+// loops are left out, matching the plate.
+export async function buildOpenLoopsCalendar(opts: CalendarFeedOptions): Promise<{ ics: string; count: number }> {
+  const now = opts.now ?? Date.now();
+  const rows = await pool
+    .query(
+      `
+      SELECT loop_id, chat_id, summary, type, status, urgency, when_ts, to_char(when_date, 'YYYY-MM-DD') AS when_date,
+             has_time, lane, lane_override, snooze_until, override_note, payload, updated_at
+      FROM open_loops
+      WHERE (status IS NULL OR status = 'open')
+        AND (snooze_until IS NULL OR snooze_until <= $1)
+        AND (when_ts IS NOT NULL OR when_date IS NOT NULL)
+      ORDER BY COALESCE(when_ts, when_date::timestamptz) ASC
+      LIMIT 1000
+      `,
+      [now]
+    )
+    .then((r) => r.rows ?? []);
+
+  const dtstamp = formatIcsUtc(new Date(now));
+  const components: string[][] = [];
+  const years = new Set<number>([new Date(now).getUTCFullYear()]);
+  const seen = new Set<string>();
+
+  for (const r of rows) {
+    const payload = r.payload ?? {};
+    const recurrence = parseRRule(payload.recurrence);
+    const uid = recurrence ? payload.seriesId ?? r.loop_id : r.loop_id;
+    if (seen.has(uid)) continue; // same loop from several sources, or a later occurrence of the series
+    const lane: Lane = r.lane_override ?? r.lane ?? payload.lane ?? computeLane({ ...payload, urgency: r.urgency ?? payload.urgency } as any);
+    if (opts.lanes?.length && !opts.lanes.includes(lane)) continue;
+    seen.add(uid);
+
+    const whenTs: Date | null = r.when_ts ? new Date(r.when_ts) : null;
+    const timed = !!whenTs && !Number.isNaN(whenTs.getTime()) && r.has_time !== false;
+    const whenDate: string | null = r.when_date ?? payload.whenDate ?? null;
+    if (!timed && !whenDate) continue;
+
+    const type = r.type ?? payload.type ?? "todo";
+    const displayName = payload.displayName ?? payload.chatDisplayName ?? fallbackNameFromChatId(r.chat_id ?? "unknown");
+    const summary = r.summary ?? payload.summary ?? "Open loop";
+    const description = [
+      `${displayName}: ${summary}`,
+      payload.evidenceText ? `"${payload.evidenceText}"` : null,
+      r.override_note ? `Note: ${r.override_note}` : null,
+      `Lane: ${lane} · Type: ${type}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const isEvent = type === "event_date";
+    const kind = isEvent ? "VEVENT" : "VTODO";
+    const lines = [
+      `BEGIN:${kind}`,
+      `UID:${uid}@wa-intel`,
+      `DTSTAMP:${dtstamp}`,
+      `LAST-MODIFIED:${formatIcsUtc(new Date(r.updated_at ?? now))}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `CATEGORIES:${escapeIcsText(lane)},${escapeIcsText(type)}`,
+      `PRIORITY:${LANE_PRIORITY[lane] ?? 5}`,
+    ];
+    if (timed) {
+      years.add(whenTs!.getUTCFullYear());
+      const start = formatIcsLocal(whenTs!, opts.tz);
+      if (isEvent) {
+        lines.push(`DTSTART;TZID=${opts.tz}:${start}`, `DTEND;TZID=${opts.tz}:${formatIcsLocal(new Date(whenTs!.getTime() + EVENT_MINUTES * 60_000), opts.tz)}`);
+      } else {
+        // RRULE needs a DTSTART to expand from
+        lines.push(...(recurrence ? [`DTSTART;TZID=${opts.tz}:${start}`] : []), `DUE;TZID=${opts.tz}:${start}`);
+      }
+    } else {
+      years.add(Number(whenDate!.slice(0, 4)));
+      if (isEvent) {
+        lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(whenDate!)}`, `DTEND;VALUE=DATE:${formatIcsDate(whenDate!, 1)}`, "TRANSP:TRANSPARENT");
+      } else {
+        lines.push(...(recurrence ? [`DTSTART;VALUE=DATE:${formatIcsDate(whenDate!)}`] : []), `DUE;VALUE=DATE:${formatIcsDate(whenDate!)}`);
+      }
+    }
+    if (recurrence) lines.push(`RRULE:${formatRRule(recurrence)}`);
+    lines.push(isEvent ? "STATUS:CONFIRMED" : "STATUS:NEEDS-ACTION", `END:${kind}`);
+    components.push(lines);
+  }
+
+  const ys = Array.from(years).filter(Number.isFinite);
+  const ics = buildIcsCalendar({
+    prodId: "-//wa-intel//open-loops//EN",
+    name: "Open loops",
+    tz: opts.tz,
+    years: [Math.min(...ys), Math.max(...ys)],
+    components,
+  });
+  return { ics, count: components.length };
+}
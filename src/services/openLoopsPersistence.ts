@@ -1,4 +1,7 @@
+import type { PoolClient } from "pg";
 import { pool } from "../db.js";
+import { nextOccurrence, occurrenceOnOrAfter, parseRRule } from "../utils/recurrence.js";
+import { formatDateInTz } from "../utils/when.js";
 
 const dualWriteEnabled = String(process.env.OPEN_LOOPS_DUAL_WRITE ?? "false").toLowerCase() === "true";
 const dbOnly = String(process.env.OPEN_LOOPS_DB_ONLY ?? "false").toLowerCase() === "true";
@@ -23,16 +26,183 @@ type ActiveLoop = {
   [key: string]: any;
 };
 
-export async function saveActiveLoopsToDb(loops: ActiveLoop[], source = "ea_v2") {
+export type OpenLoopEventType = "created" | "updated" | "reprioritized" | "closed" | "reopened" | "snoozed" | "dismissed";
+
+export type OpenLoopEvent = {
+  loopId: string;
+  chatId: string;
+  eventType: OpenLoopEventType;
+  actor: "llm" | "closure" | "user" | "dependency";
+  runId?: number | null;
+  ts?: number;
+  changes?: Record<string, { from: any; to: any }> | null;
+  evidence?: Record<string, any> | null;
+};
+
+// With a transaction client (`tx`) the statements run on it and failures are rethrown so the caller rolls back.
+export async function appendLoopEvents(events: OpenLoopEvent[], tx?: PoolClient) {
+  if (!enableDb || !events.length) return;
+  try {
+    const values: string[] = [];
+    const params: any[] = [];
+    let idx = 1;
+    for (const e of events) {
+      values.push(`($${idx++}, $${idx++}, $${idx++}, $${idx++}, $${idx++}, $${idx++}, $${idx++}, $${idx++})`);
+      params.push(
+        e.loopId,
+        e.chatId,
+        e.eventType,
+        e.actor,
+        e.runId ?? null,
+        e.ts ?? Date.now(),
+        e.changes ? JSON.stringify(e.changes) : null,
+        e.evidence ? JSON.stringify(e.evidence) : null
+      );
+    }
+    await (tx ?? pool).query(
+      `INSERT INTO open_loop_events (loop_id, chat_id, event_type, actor, run_id, ts, changes, evidence) VALUES ${values.join(", ")}`,
+      params
+    );
+  } catch (err) {
+    console.error("[openLoops] appendLoopEvents failed", err);
+    if (tx) throw err;
+  }
+}
+
+export async function listLoopEvents(loopId: string, chatId?: string | null) {
+  try {
+    const res = await pool.query(
+      `
+      SELECT id, loop_id, chat_id, event_type, actor, run_id, ts, changes, evidence
+      FROM open_loop_events
+      WHERE loop_id = $1 AND ($2::text IS NULL OR chat_id = $2)
+      ORDER BY ts ASC, id ASC
+      `,
+      [loopId, chatId ?? null]
+    );
+    return (res.rows ?? []).map((r: any) => ({
+      id: Number(r.id),
+      loopId: r.loop_id,
+      chatId: r.chat_id,
+      eventType: r.event_type as OpenLoopEventType,
+      actor: r.actor,
+      runId: r.run_id == null ? null : Number(r.run_id),
+      ts: Number(r.ts),
+      changes: r.changes ?? null,
+      evidence: r.evidence ?? null,
+    }));
+  } catch (err) {
+    console.error("[openLoops] listLoopEvents failed", err);
+    return [];
+  }
+}
+
+const TRACKED_FIELDS = ["status", "urgency", "importance", "summary", "type", "when", "whenDate", "lane", "blocked"] as const;
+
+// Derives lifecycle events for an EA upsert by comparing against the rows it's about to overwrite.
+function diffLoopEvents(loop: ActiveLoop, loopId: string, prev: any | null, runId: number | null, now: number): OpenLoopEvent[] {
+  const chatId = loop.chatId ?? "unknown";
+  const base = { loopId, chatId, runId, ts: now };
+  if (!prev) {
+    return [
+      {
+        ...base,
+        eventType: "created",
+        actor: "llm",
+        changes: null,
+        evidence: { evidenceMessageId: loop.evidenceMessageId ?? null, evidenceText: loop.evidenceText ?? null, promptVersion: loop.promptVersion ?? null },
+      },
+    ];
+  }
+  const before = prev.payload ?? {};
+  const changes: Record<string, { from: any; to: any }> = {};
+  for (const f of TRACKED_FIELDS) {
+    const from = f === "status" ? prev.status ?? before.status ?? null : before[f] ?? null;
+    const to = loop[f] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[f] = { from, to };
+  }
+  if (!Object.keys(changes).length) return [];
+
+  const events: OpenLoopEvent[] = [];
+  const { status, urgency, importance, ...rest } = changes;
+  if (status) {
+    const closing = status.to === "done";
+    const byClosure = closing && !!loop.closedByMessageId;
+    events.push({
+      ...base,
+      eventType: closing ? "closed" : status.from === "done" || status.from === "dismissed" ? "reopened" : "updated",
+      actor: byClosure ? "closure" : "llm",
+      changes: { status },
+      evidence: byClosure
+        ? {
+            closedByMessageId: loop.closedByMessageId,
+            closureEvidence: loop.closureEvidence ?? null,
+            closureConfidence: loop.closureConfidence ?? null,
+            closureReason: loop.closureReason ?? null,
+          }
+        : { evidenceMessageId: loop.evidenceMessageId ?? null, evidenceText: loop.evidenceText ?? null },
+    });
+  }
+  if (urgency || importance) {
+    events.push({
+      ...base,
+      eventType: "reprioritized",
+      actor: "llm",
+      changes: { ...(urgency ? { urgency } : {}), ...(importance ? { importance } : {}) },
+      evidence: { evidenceMessageId: loop.evidenceMessageId ?? null, evidenceText: loop.evidenceText ?? null },
+    });
+  }
+  if (Object.keys(rest).length) {
+    events.push({ ...base, eventType: "updated", actor: "llm", changes: rest, evidence: { evidenceMessageId: loop.evidenceMessageId ?? null } });
+  }
+  return events;
+}
+
+// Fields the user edited (PATCH /open-loops/:id) live in payload.userEdits.fields and win over what a later
+// EA run says, so refreshes merge around the edit instead of overwriting it.
+function applyUserEdits(loop: ActiveLoop, prev: any | null): ActiveLoop {
+  const edits = prev?.payload?.userEdits;
+  if (!edits?.fields) return loop;
+  return { ...loop, ...edits.fields, userEdits: edits };
+}
+
+export async function saveActiveLoopsToDb(incoming: ActiveLoop[], source = "ea_v2", opts: { runId?: number | null } = {}) {
   if (!enableDb) return;
-  if (!Array.isArray(loops) || loops.length === 0) return;
+  if (!Array.isArray(incoming) || incoming.length === 0) return;
   try {
     const values: string[] = [];
     const params: any[] = [];
     let idx = 1;
 
-    for (const l of loops) {
-      const loopId = l.id ?? l.loopKey ?? `${l.chatId ?? "unknown"}:${idx}`;
+    const incomingIds = incoming.map((l, i) => l.id ?? l.loopKey ?? `${l.chatId ?? "unknown"}:${i * 16 + 1}`);
+    const prevRows = await pool
+      .query("SELECT loop_id, chat_id, source, status, payload FROM open_loops WHERE (source = $1 OR source = 'user') AND loop_id = ANY($2)", [
+        source,
+        incomingIds,
+      ])
+      .then((r) => r.rows ?? []);
+    const prevByKey = new Map(prevRows.filter((r: any) => r.source === source).map((r: any) => [`${r.chat_id}|${r.loop_id}`, r]));
+    // a loop the user wrote themselves is never replaced by an EA copy carrying the same id
+    const userAuthored = new Set(
+      prevRows.filter((r: any) => r.source === "user" && source !== "user").map((r: any) => `${r.chat_id}|${r.loop_id}`)
+    );
+    const kept = incoming.map((l, i) => ({ l, id: incomingIds[i] })).filter(({ l, id }) => !userAuthored.has(`${l.chatId ?? null}|${id}`));
+    if (!kept.length) return;
+    // a completed recurring loop whose next occurrence is already open stays done: the series continues there
+    const continued = await pool
+      .query("SELECT chat_id, payload->>'spawnedFrom' AS parent FROM open_loops WHERE source = 'recurrence' AND status = 'open' AND payload->>'spawnedFrom' = ANY($1)", [
+        kept.map(({ id }) => id),
+      ])
+      .then((r) => new Set((r.rows ?? []).map((row: any) => `${row.chat_id}|${row.parent}`)));
+    const loops = kept.map(({ l, id }) => {
+      const key = `${l.chatId ?? null}|${id}`;
+      const prev = prevByKey.get(key) ?? null;
+      const merged = applyUserEdits(l, prev);
+      return prev?.status === "done" && merged.status !== "done" && continued.has(key) ? { ...merged, status: "done" } : merged;
+    });
+    const loopIds = kept.map(({ id }) => id);
+    for (const [i, l] of loops.entries()) {
+      const loopId = loopIds[i];
       const placeholders = Array.from({ length: 16 }, () => `$${idx++}`);
       values.push(`(${placeholders.join(",")})`);
       params.push(
@@ -80,6 +250,17 @@ export async function saveActiveLoopsToDb(loops: ActiveLoop[], source = "ea_v2")
     `;
 
     await pool.query(sql, params);
+
+    const now = Date.now();
+    const events = loops.flatMap((l, i) =>
+      diffLoopEvents(l, loopIds[i], prevByKey.get(`${l.chatId ?? null}|${loopIds[i]}`) ?? null, opts.runId ?? null, now)
+    );
+    await appendLoopEvents(events);
+    for (const e of events) {
+      if (e.eventType !== "closed") continue;
+      await closeClusterSiblings(e.chatId, e.loopId, { actor: e.actor, runId: e.runId ?? null });
+      await spawnNextOccurrence(e.chatId, e.loopId, { actor: e.actor, runId: e.runId ?? null });
+    }
   } catch (err) {
     console.error("[openLoopsDualWrite] saveActiveLoopsToDb failed", err);
     if (dbOnly) throw err;
@@ -96,6 +277,7 @@ export async function saveDebugRunToDb(run: {
   rawOpenLoops?: any[];
   sanitizedOpenLoops?: any[];
   dropped?: any[];
+  closures?: any[];
 }) {
   if (!enableDb) return;
   if (!run?.chatId || !Number.isFinite(run.ts)) return;
@@ -103,8 +285,8 @@ export async function saveDebugRunToDb(run: {
     await pool.query(
       `
       INSERT INTO open_loop_runs
-        (chat_id, run_ts, run_type, from_ts, to_ts, message_count, raw_open_loops, sanitized_open_loops, dropped)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        (chat_id, run_ts, run_type, from_ts, to_ts, message_count, raw_open_loops, sanitized_open_loops, dropped, closures)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
     `,
       [
         run.chatId,
@@ -116,6 +298,7 @@ export async function saveDebugRunToDb(run: {
         run.rawOpenLoops ?? null,
         run.sanitizedOpenLoops ?? null,
         run.dropped ?? null,
+        run.closures ? JSON.stringify(run.closures) : null,
       ]
     );
   } catch (err) {
@@ -178,21 +361,255 @@ export async function saveOpenLoopCursor(cursor: {
   }
 }
 
-export async function updateLoopStatus(chatId: string, loopId: string, updates: { status?: string; snoozeUntil?: number | null }) {
-  if (!enableDb) return;
+export type LoopRef = { loopId: string; chatId: string };
+
+// Returns the cluster siblings a "done" closed along with the loop (empty otherwise). lane/note are left
+// untouched when undefined; snoozeUntil is always written (undefined clears it). Pass `tx` to run inside a
+// caller's transaction: failures are then rethrown instead of logged.
+export async function updateLoopStatus(
+  chatId: string,
+  loopId: string,
+  updates: { status?: string; snoozeUntil?: number | null; laneOverride?: string | null; overrideNote?: string | null },
+  audit: { actor?: OpenLoopEvent["actor"]; runId?: number | null; evidence?: Record<string, any> | null } = {},
+  tx?: PoolClient
+): Promise<LoopRef[]> {
+  if (!enableDb) return [];
+  const db = tx ?? pool;
   try {
-    await pool.query(
+    const prev = await db
+      .query("SELECT status, snooze_until, lane_override, override_note FROM open_loops WHERE loop_id = $1 AND chat_id = $2 LIMIT 1", [
+        loopId,
+        chatId,
+      ])
+      .then((r) => r.rows?.[0] ?? null);
+    await db.query(
       `
       UPDATE open_loops
       SET status = COALESCE($3, status),
           snooze_until = $4,
+          lane_override = CASE WHEN $5::boolean THEN $6 ELSE lane_override END,
+          override_note = CASE WHEN $7::boolean THEN $8 ELSE override_note END,
           updated_at = now()
       WHERE loop_id = $1 AND chat_id = $2
       `,
-      [loopId, chatId, updates.status ?? null, updates.snoozeUntil ?? null]
+      [
+        loopId,
+        chatId,
+        updates.status ?? null,
+        updates.snoozeUntil ?? null,
+        updates.laneOverride !== undefined,
+        updates.laneOverride ?? null,
+        updates.overrideNote !== undefined,
+        updates.overrideNote ?? null,
+      ]
+    );
+    if (!prev) return [];
+
+    const changes: Record<string, { from: any; to: any }> = {};
+    if (updates.status && updates.status !== prev.status) changes.status = { from: prev.status ?? null, to: updates.status };
+    const prevSnooze = prev.snooze_until == null ? null : Number(prev.snooze_until);
+    if ((updates.snoozeUntil ?? null) !== prevSnooze) changes.snoozeUntil = { from: prevSnooze, to: updates.snoozeUntil ?? null };
+    if (updates.laneOverride !== undefined && updates.laneOverride !== (prev.lane_override ?? null)) {
+      changes.laneOverride = { from: prev.lane_override ?? null, to: updates.laneOverride };
+    }
+    if (updates.overrideNote !== undefined && updates.overrideNote !== (prev.override_note ?? null)) {
+      changes.overrideNote = { from: prev.override_note ?? null, to: updates.overrideNote };
+    }
+    if (!Object.keys(changes).length) return [];
+    const eventType: OpenLoopEventType =
+      updates.status === "done"
+        ? "closed"
+        : updates.status === "dismissed"
+        ? "dismissed"
+        : updates.status === "open" && changes.status
+        ? "reopened"
+        : updates.snoozeUntil && changes.snoozeUntil
+        ? "snoozed"
+        : "updated";
+    await appendLoopEvents(
+      [{ loopId, chatId, eventType, actor: audit.actor ?? "user", runId: audit.runId ?? null, changes, evidence: audit.evidence ?? null }],
+      tx
     );
+    const follow = { actor: audit.actor ?? "user", runId: audit.runId ?? null };
+    if (eventType === "reopened") await retractNextOccurrence(chatId, loopId, follow, tx);
+    if (eventType !== "closed") return [];
+    await spawnNextOccurrence(chatId, loopId, follow, tx);
+    return closeClusterSiblings(chatId, loopId, follow, tx);
   } catch (err) {
     console.error("[openLoops] updateLoopStatus failed", err);
-    if (dbOnly) throw err;
+    if (dbOnly || tx) throw err;
+    return [];
+  }
+}
+
+// A cross-chat cluster is one real-world task: when a member closes, its still-open siblings close with it
+// (see loopClusterService). Siblings get their own "closed" event pointing at the member that closed.
+export async function closeClusterSiblings(
+  chatId: string,
+  loopId: string,
+  audit: { actor: OpenLoopEvent["actor"]; runId?: number | null },
+  tx?: PoolClient
+): Promise<LoopRef[]> {
+  if (!enableDb) return [];
+  try {
+    const res = await (tx ?? pool).query(
+      `
+      UPDATE open_loops l
+      SET status = 'done', updated_at = now()
+      FROM open_loop_cluster_members m
+      JOIN open_loop_cluster_members self ON self.cluster_id = m.cluster_id AND self.loop_id = $1 AND self.chat_id = $2 AND NOT self.detached
+      WHERE l.loop_id = m.loop_id AND l.chat_id = m.chat_id
+        AND NOT m.detached
+        AND NOT (m.loop_id = $1 AND m.chat_id = $2)
+        AND (l.status IS NULL OR l.status = 'open')
+      RETURNING l.loop_id, l.chat_id, m.cluster_id
+      `,
+      [loopId, chatId]
+    );
+    const rows = res.rows ?? [];
+    const now = Date.now();
+    await appendLoopEvents(
+      rows.map((r: any) => ({
+        loopId: r.loop_id,
+        chatId: r.chat_id,
+        eventType: "closed" as const,
+        actor: audit.actor,
+        runId: audit.runId ?? null,
+        ts: now,
+        changes: { status: { from: "open", to: "done" } },
+        evidence: { clusterId: r.cluster_id, closedVia: { loopId, chatId } },
+      })),
+      tx
+    );
+    return rows.map((r: any) => ({ loopId: r.loop_id, chatId: r.chat_id }));
+  } catch (err) {
+    console.error("[openLoops] closeClusterSiblings failed", err);
+    if (tx) throw err;
+    return [];
+  }
+}
+
+const OCCURRENCE_DROPPED_FIELDS = ["closedByMessageId", "closureEvidence", "closureConfidence", "closureReason", "userEdits", "blockedBy"];
+
+// Closing a loop with payload.recurrence opens the series' next occurrence as its own loop (source "recurrence",
+// id "<seriesId>@<date>"), dated from the closed occurrence and never in the past. Returns the new loop id.
+export async function spawnNextOccurrence(
+  chatId: string,
+  loopId: string,
+  audit: { actor: OpenLoopEvent["actor"]; runId?: number | null },
+  tx?: PoolClient,
+  now = Date.now()
+): Promise<string | null> {
+  if (!enableDb) return null;
+  try {
+    const db = tx ?? pool;
+    const row = await db
+      .query(
+        `
+        SELECT loop_id, chat_id, summary, type, urgency, importance, confidence, when_ts,
+               to_char(when_date, 'YYYY-MM-DD') AS when_date, has_time, payload
+        FROM open_loops WHERE loop_id = $1 AND chat_id = $2 ORDER BY updated_at DESC LIMIT 1
+        `,
+        [loopId, chatId]
+      )
+      .then((r) => r.rows?.[0] ?? null);
+    const rule = parseRRule(row?.payload?.recurrence);
+    if (!row || !rule) return null;
+
+    const today = formatDateInTz(new Date(now));
+    const whenTs: Date | null = row.when_ts ? new Date(row.when_ts) : null;
+    const base = row.when_date ?? (whenTs ? formatDateInTz(whenTs) : today);
+    let next = nextOccurrence(rule, base);
+    if (next < today) next = occurrenceOnOrAfter(rule, today);
+    // timed occurrences keep their time of day
+    const nextWhen =
+      whenTs && row.has_time ? new Date(whenTs.getTime() + (Date.parse(next) - Date.parse(formatDateInTz(whenTs)))).toISOString() : null;
+
+    const seriesId = row.payload.seriesId ?? row.loop_id;
+    const nextId = `${seriesId}@${next}`;
+    const payload: Record<string, any> = { ...row.payload };
+    for (const f of OCCURRENCE_DROPPED_FIELDS) delete payload[f];
+    Object.assign(payload, {
+      id: nextId,
+      status: "open",
+      blocked: false,
+      when: nextWhen,
+      whenDate: next,
+      hasTime: !!nextWhen,
+      seriesId,
+      spawnedFrom: row.loop_id,
+      firstSeenTs: now,
+      lastSeenTs: now,
+    });
+    const res = await db.query(
+      `
+      INSERT INTO open_loops (
+        loop_id, chat_id, source, summary, type, status, urgency, importance, confidence,
+        when_ts, when_date, has_time, lane, first_seen_ts, last_seen_ts, payload
+      )
+      VALUES ($1, $2, 'recurrence', $3, $4, 'open', $5, $6, $7, $8, $9, $10, NULL, $11, $11, $12)
+      ON CONFLICT (loop_id, chat_id, source)
+      DO UPDATE SET status = 'open', last_seen_ts = EXCLUDED.last_seen_ts, updated_at = now()
+      WHERE open_loops.status = 'dismissed'
+      RETURNING (xmax = 0) AS inserted
+      `,
+      [nextId, chatId, row.summary, row.type, row.urgency, row.importance, row.confidence, nextWhen, next, !!nextWhen, now, JSON.stringify(payload)]
+    );
+    const written = res.rows?.[0];
+    if (!written) return nextId; // already open
+    await appendLoopEvents(
+      [
+        {
+          loopId: nextId,
+          chatId,
+          eventType: written.inserted ? "created" : "reopened",
+          actor: audit.actor,
+          runId: audit.runId ?? null,
+          ts: now,
+          changes: written.inserted ? null : { status: { from: "dismissed", to: "open" } },
+          evidence: { spawnedFrom: row.loop_id, seriesId, recurrence: row.payload.recurrence },
+        },
+      ],
+      tx
+    );
+    return nextId;
+  } catch (err) {
+    console.error("[openLoops] spawnNextOccurrence failed", err);
+    if (tx) throw err;
+    return null;
+  }
+}
+
+// Reopening a completed occurrence (by the user, or a bulk undo) takes back the occurrence it spawned.
+async function retractNextOccurrence(
+  chatId: string,
+  loopId: string,
+  audit: { actor: OpenLoopEvent["actor"]; runId?: number | null },
+  tx?: PoolClient
+): Promise<void> {
+  try {
+    const res = await (tx ?? pool).query(
+      `
+      UPDATE open_loops SET status = 'dismissed', updated_at = now()
+      WHERE source = 'recurrence' AND chat_id = $1 AND payload->>'spawnedFrom' = $2 AND (status IS NULL OR status = 'open')
+      RETURNING loop_id
+      `,
+      [chatId, loopId]
+    );
+    await appendLoopEvents(
+      (res.rows ?? []).map((r: any) => ({
+        loopId: r.loop_id,
+        chatId,
+        eventType: "dismissed" as const,
+        actor: audit.actor,
+        runId: audit.runId ?? null,
+        changes: { status: { from: "open", to: "dismissed" } },
+        evidence: { retractedBecauseReopened: loopId },
+      })),
+      tx
+    );
+  } catch (err) {
+    console.error("[openLoops] retractNextOccurrence failed", err);
+    if (tx) throw err;
   }
 }
@@ -0,0 +1,166 @@
+import { pool } from "../db.js";
+import { fallbackNameFromChatId } from "../utils/displayName.js";
+
+// Filtered, searchable, keyset-paginated reads over the open_loops table (GET /open-loops/search). Unlike the
+// plate this is a straight table query: no lane rules, clustering or scoring, and closed history on request.
+
+export const OPEN_LOOP_SORTS = ["lastSeen", "firstSeen", "due", "importance", "urgency", "relevance"] as const;
+export type OpenLoopSort = (typeof OPEN_LOOP_SORTS)[number];
+
+export type OpenLoopQuery = {
+  chatIds?: string[];
+  types?: string[];
+  statuses?: ("open" | "done" | "dismissed")[];
+  urgencies?: string[];
+  lanes?: string[];
+  actor?: string;
+  minImportance?: number;
+  maxImportance?: number;
+  dueFrom?: string; // YYYY-MM-DD, inclusive
+  dueTo?: string; // YYYY-MM-DD, inclusive
+  hasEvidence?: boolean;
+  blocked?: boolean;
+  q?: string;
+  includeClosed?: boolean;
+  sort: OpenLoopSort;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: string;
+};
+
+type CursorState = { s: OpenLoopSort; o: "asc" | "desc"; v: number; id: number };
+
+export class OpenLoopQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenLoopQueryError";
+  }
+}
+
+const SEARCH_DOCUMENT =
+  "to_tsvector('simple', COALESCE(summary, '') || ' ' || COALESCE(payload->>'evidenceText', '') || ' ' || COALESCE(payload->>'evidenceSummary', ''))";
+
+// Every sort key is a non-null number so (key, id) row comparisons work as a cursor; undated loops sort last either way.
+function sortExpression(sort: OpenLoopSort, order: "asc" | "desc", qParam: string | null): string {
+  switch (sort) {
+    case "firstSeen":
+      return "COALESCE(first_seen_ts, 0)::double precision";
+    case "due":
+      return `COALESCE(EXTRACT(EPOCH FROM COALESCE(when_ts, when_date::timestamp AT TIME ZONE 'UTC')) * 1000, ${order === "asc" ? "9e15" : "-9e15"})::double precision`;
+    case "importance":
+      return "COALESCE(importance, 0)::double precision";
+    case "urgency":
+      return "(CASE urgency WHEN 'high' THEN 3 WHEN 'moderate' THEN 2 WHEN 'low' THEN 1 ELSE 0 END)::double precision";
+    case "relevance":
+      return qParam ? `ROUND(ts_rank(${SEARCH_DOCUMENT}, plainto_tsquery('simple', ${qParam}))::numeric, 6)::double precision` : "0::double precision";
+    default:
+      return "COALESCE(last_seen_ts, 0)::double precision";
+  }
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+function decodeCursor(raw: string, sort: OpenLoopSort, order: "asc" | "desc"): CursorState {
+  let state: any;
+  try {
+    state = JSON.parse(Buffer.from(raw, "base64url").toString("utf-8"));
+  } catch {
+    throw new OpenLoopQueryError("Invalid cursor");
+  }
+  if (!state || !Number.isFinite(state.v) || !Number.isInteger(state.id)) throw new OpenLoopQueryError("Invalid cursor");
+  if (state.s !== sort || state.o !== order) throw new OpenLoopQueryError("Cursor does not match sort/order");
+  return state as CursorState;
+}
+
+export async function queryOpenLoops(query: OpenLoopQuery) {
+  const where: string[] = [];
+  const params: any[] = [];
+  let idx = 1;
+  const param = (value: any) => {
+    params.push(value);
+    return `$${idx++}`;
+  };
+
+  if (query.chatIds?.length) where.push(`chat_id = ANY(${param(query.chatIds)}::text[])`);
+  if (query.types?.length) where.push(`type = ANY(${param(query.types)}::text[])`);
+  if (query.statuses?.length) where.push(`COALESCE(status, 'open') = ANY(${param(query.statuses)}::text[])`);
+  else if (!query.includeClosed) where.push("COALESCE(status, 'open') = 'open'");
+  if (query.urgencies?.length) where.push(`urgency = ANY(${param(query.urgencies)}::text[])`);
+  if (query.lanes?.length) where.push(`COALESCE(lane_override, lane) = ANY(${param(query.lanes)}::text[])`);
+  if (query.actor) where.push(`payload->>'actor' = ${param(query.actor)}`);
+  if (query.minImportance != null) where.push(`importance >= ${param(query.minImportance)}`);
+  if (query.maxImportance != null) where.push(`importance <= ${param(query.maxImportance)}`);
+  if (query.dueFrom) where.push(`COALESCE(when_date, when_ts::date) >= ${param(query.dueFrom)}::date`);
+  if (query.dueTo) where.push(`COALESCE(when_date, when_ts::date) <= ${param(query.dueTo)}::date`);
+  if (query.hasEvidence !== undefined) {
+    where.push(`${query.hasEvidence ? "" : "NOT "}(payload->>'evidenceMessageId' IS NOT NULL OR payload->>'evidenceText' IS NOT NULL)`);
+  }
+  if (query.blocked !== undefined) where.push(`COALESCE((payload->>'blocked')::boolean, false) = ${param(query.blocked)}`);
+  const qParam = query.q ? param(query.q) : null;
+  if (qParam) where.push(`${SEARCH_DOCUMENT} @@ plainto_tsquery('simple', ${qParam})`);
+
+  const sort = query.sort === "relevance" && !qParam ? "lastSeen" : query.sort;
+  const sortExpr = sortExpression(sort, query.order, qParam);
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, query.sort, query.order);
+    where.push(`(${sortExpr}, id) ${query.order === "asc" ? ">" : "<"} (${param(cursor.v)}::double precision, ${param(cursor.id)}::bigint)`);
+  }
+  const direction = query.order === "asc" ? "ASC" : "DESC";
+
+  const res = await pool.query(
+    `
+    SELECT id, loop_id, chat_id, source, summary, type, status, urgency, importance, confidence,
+           when_ts, to_char(when_date, 'YYYY-MM-DD') AS when_date, has_time, lane, lane_override, snooze_until, override_note,
+           first_seen_ts, last_seen_ts, payload, ${sortExpr} AS sort_value
+    FROM open_loops
+    ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY sort_value ${direction}, id ${direction}
+    LIMIT ${param(query.limit + 1)}
+    `,
+    params
+  );
+  const rows = res.rows ?? [];
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+  const nextCursor =
+    rows.length > query.limit && last ? encodeCursor({ s: query.sort, o: query.order, v: Number(last.sort_value), id: Number(last.id) }) : null;
+
+  return {
+    openLoops: page.map((r: any) => {
+      const payload = r.payload ?? {};
+      return {
+        id: r.loop_id,
+        chatId: r.chat_id,
+        source: r.source,
+        displayName: payload.displayName ?? payload.chatDisplayName ?? fallbackNameFromChatId(r.chat_id),
+        summary: r.summary ?? payload.summary ?? "",
+        type: r.type ?? payload.type ?? null,
+        status: r.status ?? "open",
+        urgency: r.urgency ?? null,
+        importance: r.importance ?? null,
+        confidence: r.confidence ?? null,
+        when: r.when_ts ? new Date(r.when_ts).toISOString() : null,
+        whenDate: r.when_date ?? null,
+        hasTime: r.has_time ?? false,
+        lane: r.lane_override ?? r.lane ?? null,
+        laneOverride: r.lane_override ?? null,
+        snoozeUntil: r.snooze_until == null ? null : Number(r.snooze_until),
+        overrideNote: r.override_note ?? null,
+        actor: payload.actor ?? null,
+        blocked: payload.blocked === true,
+        blockedReason: payload.blockedReason ?? null,
+        taskGoal: payload.taskGoal ?? null,
+        dependsOnTaskGoal: payload.dependsOnTaskGoal ?? null,
+        evidenceMessageId: payload.evidenceMessageId ?? null,
+        evidenceText: payload.evidenceText ?? null,
+        firstSeenTs: r.first_seen_ts == null ? null : Number(r.first_seen_ts),
+        lastSeenTs: r.last_seen_ts == null ? null : Number(r.last_seen_ts),
+        ...(sort === "relevance" ? { relevance: Number(r.sort_value) } : {}),
+      };
+    }),
+    nextCursor,
+    sort,
+  };
+}
@@ -3,6 +3,7 @@ import { toSummaryMessages, buildOpenLoopsPrompt, OpenLoopItem } from "../prompt
 import { callLLM, getModelName } from "../llm.js";
 import { getActiveOpenLoops, saveOpenLoops, loadOpenLoops } from "../openLoopsStore.js";
 import { SummaryRequestMessage, OpenLoopRecord } from "../types.js";
+import { emptyScoringContext, scoreLoop, ScoringContext } from "./priorityScoring.js";
 
 function attachWhoToOpenLoops(loops: OpenLoopItem[], messages: SummaryRequestMessage[]): OpenLoopItem[] {
   const index = new Map<string, SummaryRequestMessage>();
@@ -165,51 +166,32 @@ async function mergeAndSaveOpenLoops(extracted: OpenLoopItem[]): Promise<OpenLoo
   return mergedList;
 }
 
-// Heuristic to sort loops by importance/urgency.
-export function computePriorityScore(loop: OpenLoopRecord): number {
-  let score = 0;
-  switch (loop.category) {
-    case "time_sensitive":
-      score += 40;
-      break;
-    case "promise":
-      score += 30;
-      break;
-    case "follow_up":
-      score += 25;
-      break;
-    case "question":
-      score += 20;
-      break;
-    default:
-      break;
-  }
-
-  switch (loop.direction) {
-    case "them":
-      score += 15;
-      break;
-    case "me":
-      score += 5;
-      break;
-    case "broadcast":
-    default:
-      break;
-  }
-
-  const whenText = (loop.when ?? "").toLowerCase();
-  if (/\b(today|tomorrow|this saturday|this sunday|this monday|this tuesday|this wednesday|this thursday|this friday)\b/.test(whenText)) {
-    score += 20;
-  }
-
-  score += Math.min(10, (loop.timesMentioned ?? 1) * 2);
-
-  const daysOld = (Date.now() - (loop.lastSeenTs ?? Date.now())) / (1000 * 60 * 60 * 24);
-  score -= Math.min(20, Math.floor(daysOld));
-
-  return score;
+const LEGACY_URGENCY: Record<OpenLoopRecord["category"], string> = {
+  time_sensitive: "high",
+  promise: "moderate",
+  follow_up: "moderate",
+  question: "low",
+};
+const NEAR_WHEN_RE = /\b(today|tonight|tomorrow|this saturday|this sunday|this monday|this tuesday|this wednesday|this thursday|this friday)\b/;
+
+// Legacy (message-level) loops scored with the shared weights in priorityScoring.ts. These records only carry
+// free-text `when`, so "today/tomorrow/this <day>" counts as due within a day and anything else as undated.
+export function computePriorityScore(loop: OpenLoopRecord, ctx: ScoringContext = emptyScoringContext()): number {
+  return scoreLoop(
+    {
+      chatId: loop.chatId,
+      urgency: LEGACY_URGENCY[loop.category] ?? "low",
+      importance: Math.min(10, 3 + (loop.timesMentioned ?? 1) * 2),
+      whenMs: NEAR_WHEN_RE.test((loop.when ?? "").toLowerCase()) ? ctx.now + 12 * 60 * 60 * 1000 : null,
+      lastSeenTs: loop.lastSeenTs,
+      surfaceType: loop.direction === "them" ? "reply_needed" : loop.category === "follow_up" ? "follow_up" : "todo",
+    },
+    ctx
+  ).total;
 }
 
 function sortByPriority(loops: OpenLoopRecord[]): OpenLoopRecord[] {
-  return [...loops].sort((a, b) => computePriorityScore(b) - computePriorityScore(a));
+  const ctx = emptyScoringContext();
+  const scores = new Map(loops.map((l) => [l, computePriorityScore(l, ctx)]));
+  return [...loops].sort((a, b) => scores.get(b)! - scores.get(a)!);
 }
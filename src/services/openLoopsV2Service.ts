@@ -4,7 +4,12 @@ import { WindowOpenLoop } from "../types.js";
 import { callLLM } from "../llm.js";
 import { normalizeWhen } from "../utils/when.js";
 import { fallbackNameFromChatId } from "../utils/displayName.js";
+import { describeRecurrence, formatRRule, parseRRule } from "../utils/recurrence.js";
 import { pool } from "../db.js";
+import { applyLaneRules, LaneRuleMatch, loadLaneRuleContext } from "./laneRulesService.js";
+import { applyLoopClusters, ClusterSource } from "./loopClusterService.js";
+import type { BlockingLoop } from "./loopDependencyService.js";
+import { loadScoringContext, PriorityBreakdown, scoreLoop, ScoringContext } from "./priorityScoring.js";
 
 function clampWhen(loop: any) {
   const parsed = normalizeWhen(loop.when ?? null, loop.whenDate ?? null);
@@ -54,6 +59,19 @@ export interface ActiveOpenLoop extends WindowOpenLoop {
   dependsOnTaskGoal?: string;
   lane?: "now" | "later" | "backlog";
   laneOverride?: "now" | "later" | "backlog";
+  closedByMessageId?: string;
+  closureEvidence?: string;
+  closureConfidence?: number;
+  closureReason?: string;
+  laneRule?: LaneRuleMatch;
+  priorityScore?: number;
+  priorityBreakdown?: PriorityBreakdown;
+  clusterId?: string;
+  sourceChats?: ClusterSource[];
+  blockedReason?: string;
+  blockedBy?: BlockingLoop[];
+  recurrence?: string;
+  recurrenceText?: string;
 }
 
 function normalize(text: string | null | undefined): string {
@@ -270,7 +288,7 @@ function mapSurfaceType(loop: ActiveOpenLoop): ActiveOpenLoop["surfaceType"] {
 }
 
 const NOW_WINDOW_DAYS = 2;
-function computeLane(loop: ActiveOpenLoop): "now" | "later" | "backlog" {
+export function computeLane(loop: ActiveOpenLoop): "now" | "later" | "backlog" {
   if (loop.laneOverride) return loop.laneOverride;
   const urgencyHigh = loop.urgency === "high";
   const hasTime = loop.hasTime === true;
@@ -427,35 +445,32 @@ Rules:
   return { openLoops: loops.slice(0, 10) };
 }
 
-function sortActiveLoops(loops: ActiveOpenLoop[]): ActiveOpenLoop[] {
-  const urgencyWeight: Record<WindowOpenLoop["urgency"], number> = {
-    high: 3,
-    moderate: 2,
-    low: 1,
-  };
-
-  return [...loops].sort((a, b) => {
-    const surfaceRank: Record<NonNullable<ActiveOpenLoop["surfaceType"]>, number> = {
-      reply_needed: 6,
-      decision_needed: 5,
-      follow_up: 4,
-      event_date: 3,
-      todo: 2,
-      info_to_save: 1,
-    };
+// Fresh loops before stale ones and open before closed (as the old sort did), then by weighted priority
+// score (see priorityScoring.ts), then recency.
+function rankActiveLoops(loops: ActiveOpenLoop[], ctx: ScoringContext, explain: boolean): ActiveOpenLoop[] {
+  const scored = loops.map((l) => {
+    const whenMs =
+      l.when && l.hasTime && !Number.isNaN(Date.parse(l.when)) ? Date.parse(l.when) : l.whenDate && !Number.isNaN(Date.parse(l.whenDate)) ? Date.parse(l.whenDate) : null;
+    const breakdown = scoreLoop(
+      {
+        chatId: l.chatId,
+        urgency: l.urgency,
+        importance: l.importance,
+        confidence: l.confidence,
+        whenMs,
+        lastSeenTs: l.lastSeenTs,
+        surfaceType: l.surfaceType,
+      },
+      ctx
+    );
+    return { ...l, priorityScore: breakdown.total, ...(explain ? { priorityBreakdown: breakdown } : {}) };
+  });
+  return scored.sort((a, b) => {
     if (!!a.stale !== !!b.stale) return a.stale ? 1 : -1;
-    if (a.status !== b.status) {
-      return a.status === "open" ? -1 : 1;
-    }
-    const sa = a.surfaceType ? surfaceRank[a.surfaceType] ?? 0 : 0;
-    const sb = b.surfaceType ? surfaceRank[b.surfaceType] ?? 0 : 0;
-    if (sa !== sb) return sb - sa;
-    if (urgencyWeight[a.urgency] !== urgencyWeight[b.urgency]) {
-      return urgencyWeight[b.urgency] - urgencyWeight[a.urgency];
-    }
-    if ((b.importance ?? 0) !== (a.importance ?? 0)) {
-      return (b.importance ?? 0) - (a.importance ?? 0);
-    }
+    if ((a.status === "open") !== (b.status === "open")) return a.status === "open" ? -1 : 1;
+    // loops waiting on another loop go after the ones that can be acted on now
+    if (!!a.blocked !== !!b.blocked) return a.blocked ? 1 : -1;
+    if (b.priorityScore !== a.priorityScore) return b.priorityScore - a.priorityScore;
     return (b.lastSeenTs ?? 0) - (a.lastSeenTs ?? 0);
   });
 }
@@ -465,7 +480,10 @@ export async function getActiveOpenLoopsFromWindows(days: number): Promise<Activ
   return result.openLoops;
 }
 
-export async function getCuratedPlateOpenLoops(days: number): Promise<{ openLoops: ActiveOpenLoop[]; narrativeSummary?: string; meta?: any }> {
+export async function getCuratedPlateOpenLoops(
+  days: number,
+  opts: { explain?: boolean } = {}
+): Promise<{ openLoops: ActiveOpenLoop[]; narrativeSummary?: string; meta?: any }> {
   const now = Date.now();
   const since = now - days * 24 * 60 * 60 * 1000;
   const rows = await pool
@@ -477,7 +495,8 @@ export async function getCuratedPlateOpenLoops(days: number): Promise<{ openLoop
       FROM open_loops
       WHERE (status IS NULL OR status != 'dismissed')
         AND (snooze_until IS NULL OR snooze_until <= $2)
-        AND (last_seen_ts IS NULL OR last_seen_ts >= $1)
+        -- nothing re-sees a loop the user wrote or a spawned occurrence, so open ones stay until closed
+        AND (last_seen_ts IS NULL OR last_seen_ts >= $1 OR (source IN ('user', 'recurrence') AND (status IS NULL OR status = 'open')))
       ORDER BY last_seen_ts DESC NULLS LAST
       LIMIT 1000
       `,
@@ -500,6 +519,7 @@ export async function getCuratedPlateOpenLoops(days: number): Promise<{ openLoop
       typeof payload.isGroup === "boolean"
         ? payload.isGroup
         : !!(r.chat_id && String(r.chat_id).includes("@g.us"));
+    const recurrence = parseRRule(payload.recurrence);
     return {
       id: r.loop_id ?? r.id ?? crypto.randomUUID(),
       chatId: r.chat_id,
@@ -523,10 +543,36 @@ export async function getCuratedPlateOpenLoops(days: number): Promise<{ openLoop
       overrideNote: r.override_note ?? undefined,
       actor: payload.actor ?? "me",
       timesMentioned: payload.timesMentioned ?? 1,
+      closedByMessageId: payload.closedByMessageId ?? undefined,
+      closureEvidence: payload.closureEvidence ?? undefined,
+      closureConfidence: payload.closureConfidence ?? undefined,
+      closureReason: payload.closureReason ?? undefined,
+      intentKey: payload.intentKey ?? undefined,
+      taskGoal: payload.taskGoal ?? undefined,
+      dependsOnTaskGoal: payload.dependsOnTaskGoal ?? undefined,
+      blocked: payload.blocked === true,
+      blockedReason: payload.blockedReason ?? undefined,
+      blockedBy: payload.blockedBy ?? undefined,
+      recurrence: recurrence ? formatRRule(recurrence) : undefined,
+      recurrenceText: recurrence ? describeRecurrence(recurrence) : undefined,
     };
   });
 
-  const sorted = sortActiveLoops(mapped).slice(0, 10).map((l) => ({ ...l, lane: l.lane ?? computeLane(l) }));
+  const clustered = await applyLoopClusters(mapped, now);
+  const laneCtx = await loadLaneRuleContext(clustered.map((l) => l.chatId), now);
+  const placed = applyLaneRules(clustered, laneCtx);
+  const scoringCtx = await loadScoringContext(clustered.map((l) => l.chatId), now);
+  const sorted = rankActiveLoops(placed, scoringCtx, !!opts.explain)
+    .slice(0, 10)
+    .map((l) => ({ ...l, lane: l.lane ?? computeLane(l) }));
 
-  return { openLoops: sorted, meta: { sourceUsed: "db", count: sorted.length } };
+  return {
+    openLoops: sorted,
+    meta: {
+      sourceUsed: "db",
+      count: sorted.length,
+      laneRules: laneCtx.rules.length,
+      ...(opts.explain ? { scoreWeights: scoringCtx.weights } : {}),
+    },
+  };
 }
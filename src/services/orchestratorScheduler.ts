@@ -1,14 +1,18 @@
 import axios from "axios";
 import { orchestrateRun, OrchestratorState, readOrchestratorState, writeOrchestratorState } from "./orchestratorService.js";
 import { schedulerConfig } from "./schedulerConfig.js";
-import { claimJobs, completeJob, failJob } from "./jobQueue.js";
+import { claimJobs, completeJob, enqueueJob, failJob } from "./jobQueue.js";
 import { runDailyMetricsForChat } from "./metricsDailyService.js";
 import { callLLM } from "../llm.js";
-import { buildSignalsEventsPrompt, SignalsChat } from "../prompts.js";
+import { checkLlmBudget, summarizeBudget } from "../llmBudget.js";
+import { buildSignalsEventsPrompt, SignalsChat, SignalsEventsOutput } from "../prompts.js";
 import { fetchChatMessagesBefore, fetchServiceStatus, getCoverageStatus } from "../whatsappClient.js";
 import { startRun, saveArtifact, finishRun, saveEvents } from "./intelPersistence.js";
 import { pool } from "../db.js";
 import { saveSystemHeartbeat } from "./healthPersistence.js";
+import { clearChatDirty, getChatState, listQuietDirtyChats } from "./chatPipelineState.js";
+import { refreshEAOpenLoopsForChat } from "./eaOpenLoopsService.js";
+import { notifyConfig, runNotificationDispatch } from "./notificationService.js";
 
 type InfillResult = { complete: boolean; reason: "coverageOk" | "fallbackOk" | "notReady"; seedExists: boolean; coverageOk: boolean; fallbackOk: boolean };
 
@@ -152,6 +156,14 @@ async function processSignalsJob(job: any) {
   const nowTs = Date.now();
   const cutoffTs = nowTs - hours * 60 * 60 * 1000;
   try {
+    const budget = await checkLlmBudget("signals", { runId });
+    if (budget.action === "skip") {
+      // Complete the job rather than fail it: retrying won't help until the budget resets.
+      const payload = { ok: true, skipped: true, reasonCode: budget.reasonCode, budget: summarizeBudget(budget), windowHours: hours };
+      await saveArtifact({ runId, artifactType: "signals_events_chat_snapshot", chatId, payload });
+      await finishRun(runId, { status: "ok" });
+      return;
+    }
     const { messages } = await fetchChatMessagesBefore(chatId, nowTs, 50).catch(() => ({ messages: [] as any[] }));
     const minInputMsgTs = messages.reduce((m: number | null, msg: any) => (m === null ? msg.ts : Math.min(m, msg.ts)), null);
     const maxInputMsgTs = messages.reduce((m: number | null, msg: any) => (m === null ? msg.ts : Math.max(m, msg.ts)), null);
@@ -168,8 +180,11 @@ async function processSignalsJob(job: any) {
         })),
     };
     const prompt = buildSignalsEventsPrompt({ windowHours: hours, generatedAtTs: nowTs, maxEvents: 50, chats: [chatSlice] });
-    const llmResp = await callLLM<any>("signals", prompt);
-    const responsePayload: any = llmResp ?? {};
+    const llmResp = await callLLM<SignalsEventsOutput>("signals", prompt, { runId, chatId, model: budget.model });
+    const responsePayload: any = llmResp;
+    responsePayload.reasonCode = budget.reasonCode;
+    responsePayload.budget = summarizeBudget(budget);
+    responsePayload.promptVersion = prompt.promptVersion;
     responsePayload.generatedAtTs = nowTs;
     responsePayload.windowHours = hours;
     responsePayload.nowTs = nowTs;
@@ -210,12 +225,73 @@ async function processSignalsJob(job: any) {
   }
 }
 
+async function processOpenLoopsChatJob(job: any) {
+  const payload = job?.payload ?? {};
+  const chatId = payload?.chatId;
+  if (!chatId) throw new Error("missing chatId");
+  const nowTs = Date.now();
+  const state = await getChatState(chatId);
+  const dirtySinceMs = Number(state?.dirty_since_ms ?? 0) || null;
+  const lastIngestAt = Number(state?.last_ingest_at ?? 0) || null;
+  if (!dirtySinceMs) {
+    console.info(`[job worker] open_loops_chat chatId=${chatId} no longer dirty; skipping`);
+    return;
+  }
+  if (lastIngestAt && nowTs - lastIngestAt < schedulerConfig.openLoopsQuietMs) {
+    // Conversation picked up again after enqueue; stays dirty and is re-enqueued once quiet.
+    console.info(`[job worker] open_loops_chat chatId=${chatId} still active; deferring`);
+    return;
+  }
+
+  const runId = await startRun({
+    kind: "open_loops_chat",
+    runType: "job",
+    params: payload,
+  });
+  try {
+    // Window reaches back to the first unprocessed message; the chat cursor does the rest.
+    const hours = Math.min(240, Math.max(48, Math.ceil((nowTs - dirtySinceMs) / (60 * 60 * 1000)) + 1));
+    // a failed LLM call throws, so the chat stays dirty and failJob retries it
+    const result = await refreshEAOpenLoopsForChat(chatId, { hours, runId, throwOnLlmError: true });
+    const cleared = await clearChatDirty(chatId, lastIngestAt);
+    await saveArtifact({
+      runId,
+      artifactType: "open_loops_chat_result",
+      chatId,
+      payload: {
+        chatId,
+        dirtySinceMs,
+        lastIngestAt,
+        quietForMs: lastIngestAt ? nowTs - lastIngestAt : null,
+        windowHours: hours,
+        openLoops: result?.openLoops?.length ?? 0,
+        lastProcessedMessageTs: result?.lastProcessedMessageTs ?? null,
+        dirtyCleared: cleared,
+      },
+    });
+    await finishRun(runId, { status: "ok" });
+  } catch (err: any) {
+    await finishRun(runId, { status: "error", error: err?.message ?? String(err) });
+    throw err;
+  }
+}
+
+async function enqueueQuietDirtyChats(tickId: number, now: number) {
+  const chats = await listQuietDirtyChats(now - schedulerConfig.openLoopsQuietMs, schedulerConfig.openLoopsChatMaxPerTick);
+  for (const c of chats) {
+    await enqueueJob("open_loops_chat", { chatId: c.chatId, dirtySinceMs: c.dirtySinceMs, lastIngestAt: c.lastIngestAt }, `open_loops_chat_${c.chatId}`);
+  }
+  if (chats.length) console.info(`[orch tick=${tickId}] enqueued open_loops_chat for ${chats.length} quiet chats`);
+}
+
 async function processJob(job: any) {
   const type = job?.type;
   if (type === "metrics_daily_chat") {
     await processMetricsJob(job);
   } else if (type === "signals_events_chat") {
     await processSignalsJob(job);
+  } else if (type === "open_loops_chat") {
+    await processOpenLoopsChatJob(job);
   } else {
     // unsupported: mark done
     await completeJob(job.id);
@@ -375,6 +451,27 @@ async function tick() {
 
   writeOrchestratorState(state);
 
+  // Debounced per-chat open loops: dirty chats that have gone quiet
+  if (schedulerConfig.jobWorkerEnabled && schedulerConfig.openLoopsChatEnabled) {
+    try {
+      await enqueueQuietDirtyChats(tickId, now);
+    } catch (err: any) {
+      console.warn(`[orch tick=${tickId}] open_loops_chat enqueue failed`, err?.message ?? err);
+    }
+  }
+
+  // Reminders: due-soon / stale high-urgency loops and the morning plate (quiet hours handled inside)
+  if (notifyConfig.enabled) {
+    try {
+      const result = await runNotificationDispatch(now);
+      const sent = result.outcomes.filter((o) => o.status === "sent").length;
+      const failed = result.outcomes.filter((o) => o.status === "failed").length;
+      if (sent || failed) console.info(`[orch tick=${tickId}] notifications sent=${sent} failed=${failed}`);
+    } catch (err: any) {
+      console.warn(`[orch tick=${tickId}] notifications failed`, err?.message ?? err);
+    }
+  }
+
   if (schedulerConfig.jobWorkerEnabled) {
     try {
       const jobs = await claimJobs(schedulerConfig.jobWorkerLimit);
@@ -11,7 +11,8 @@ import {
 } from "../whatsappClient.js";
 import type { MessageRecord } from "../types.js";
 import { callLLM } from "../llm.js";
-import { buildOrchestratorHeatPrompt, OrchestratorHeatChatSlice } from "../prompts.js";
+import { checkLlmBudget, summarizeBudget } from "../llmBudget.js";
+import { buildOrchestratorHeatPrompt, OrchestratorHeatChatSlice, OrchestratorHeatOutput, PROMPT_VERSIONS } from "../prompts.js";
 import { schedulerConfig } from "./schedulerConfig.js";
 import {
   getRecentHighSignalChatIds,
@@ -445,11 +446,17 @@ export async function orchestrateRun(opts: {
     });
   }
 
-  let llmResp: any = null;
+  // Heat triage is a low-priority lane (as in runRadar): over budget it runs on the cheaper model, or is skipped
+  // and the plan falls back to the high-heat and event priorities below.
+  const budget = await checkLlmBudget("heatTriage", { runId });
+  const budgetInfo = { reasonCode: budget.reasonCode, budget: summarizeBudget(budget) };
+  let llmResp: OrchestratorHeatOutput | null = null;
   try {
-    llmResp = await callLLM<any>("heatTriage", buildOrchestratorHeatPrompt(chatSlices));
+    if (budget.action !== "skip") {
+      llmResp = await callLLM<OrchestratorHeatOutput>("heatTriage", buildOrchestratorHeatPrompt(chatSlices), { runId, model: budget.model });
+    }
   } catch (err: any) {
-    const result = { ok: false, error: err?.message ?? "heat_triage_failed" };
+    const result = { ok: false, error: err?.message ?? "heat_triage_failed", ...budgetInfo };
     state.lastRunAt = now;
     state.lastRunType = runType;
     state.lastResult = result;
@@ -464,7 +471,7 @@ export async function orchestrateRun(opts: {
     heatTier: "LOW" | "MED" | "HIGH";
     heatScore: number;
     reasons: string[];
-  }[] = Array.isArray(llmResp?.results) ? llmResp.results : [];
+  }[] = (llmResp?.results ?? []).map((r) => ({ ...r, reasons: r.reasons ?? [] }));
   const maxTargetFromCoverage = Number((coverage as any)?.maxTargetMessages ?? ORCH_MAX_TARGET);
 
   const plannedTargets: { chatId: string; targetMessages: number }[] = [];
@@ -731,6 +738,7 @@ export async function orchestrateRun(opts: {
     },
     evidence: { dropReasons, satisfactionReasonCounts, signalContextSummary },
     guardrails,
+    heatTriage: { skipped: budget.action === "skip", ...budgetInfo },
   };
   planArtifactId = await saveArtifact({ runId, artifactType: "action_plan_snapshot", payload: planPayload });
   try {
@@ -806,6 +814,7 @@ export async function orchestrateRun(opts: {
       targetsPlanned: plannedTargets.length,
       eventPriority,
       serviceA: serviceAInfo,
+      ...budgetInfo,
     };
     state.lastRunAt = now;
     state.lastRunType = runType;
@@ -842,6 +851,8 @@ export async function orchestrateRun(opts: {
     eventPriority,
     serviceA: serviceAInfo,
     serviceAStartupWarning: startupWarning,
+    heatTriageSkipped: budget.action === "skip",
+    ...budgetInfo,
   };
   if (debug) {
     (result as any).targetDecisions = targetDecisions;
@@ -890,7 +901,10 @@ export async function orchestrateRun(opts: {
     };
     await saveArtifact({ runId, artifactType: "action_plan_result", payload: planResultPayload });
   }
-  fs.writeFileSync(HEAT_LATEST_PATH, JSON.stringify({ ts: now, heatResults, params: { limitChats, limitPerChat } }, null, 2));
+  fs.writeFileSync(
+    HEAT_LATEST_PATH,
+    JSON.stringify({ ts: now, heatResults, heatPromptVersion: PROMPT_VERSIONS.orchestratorHeat, params: { limitChats, limitPerChat } }, null, 2)
+  );
 
   return { ...result, targets: postCandidates, planArtifactId };
 }
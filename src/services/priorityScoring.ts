@@ -0,0 +1,182 @@
+import { pool } from "../db.js";
+import { getLatestSnapshots } from "../relationshipSnapshotsStore.js";
+
+// Weighted, explainable priority score for open loops. Each factor is normalised (0..1, feedback -1..1),
+// multiplied by its weight and summed; the breakdown is what `?explain=1` returns. Weights come from
+// OPEN_LOOPS_SCORE_WEIGHTS ("urgency=25,timeProximity=30,..."), unset factors keep their defaults.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROXIMITY_HORIZON_DAYS = 14;
+const STALE_HORIZON_DAYS = 14;
+const CLOSENESS_WINDOW_DAYS = 30;
+const CLOSENESS_FULL_AT_MESSAGES = 300;
+const FEEDBACK_WINDOW_DAYS = 30;
+
+export const SCORE_FACTORS = ["urgency", "importance", "timeProximity", "relationship", "staleness", "confidence", "feedback", "actionType"] as const;
+export type ScoreFactor = (typeof SCORE_FACTORS)[number];
+
+const DEFAULT_WEIGHTS: Record<ScoreFactor, number> = {
+  urgency: 25,
+  importance: 20,
+  timeProximity: 25,
+  relationship: 10,
+  staleness: -15,
+  confidence: 10,
+  feedback: 10,
+  actionType: 10,
+};
+
+function parseWeights(raw: string): Record<ScoreFactor, number> {
+  const weights = { ...DEFAULT_WEIGHTS };
+  for (const part of raw.split(",")) {
+    const [k, v] = part.split("=").map((s) => s.trim());
+    const n = Number(v);
+    if (k && (SCORE_FACTORS as readonly string[]).includes(k) && v !== "" && Number.isFinite(n)) weights[k as ScoreFactor] = n;
+  }
+  return weights;
+}
+
+export const scoringConfig = {
+  weights: parseWeights(process.env.OPEN_LOOPS_SCORE_WEIGHTS ?? ""),
+};
+
+const URGENCY_VALUE: Record<string, number> = { high: 1, moderate: 0.6, medium: 0.6, low: 0.2 };
+const ACTION_TYPE_VALUE: Record<string, number> = {
+  reply_needed: 1,
+  decision_needed: 0.85,
+  follow_up: 0.7,
+  event_date: 0.55,
+  todo: 0.4,
+  info_to_save: 0.1,
+};
+
+export type ScoreInput = {
+  chatId: string;
+  urgency?: string | null;
+  importance?: number | null; // 1-10
+  confidence?: number | null; // 0-1
+  whenMs?: number | null;
+  lastSeenTs?: number | null;
+  surfaceType?: string | null;
+};
+
+export type ScoreComponent = { factor: ScoreFactor; value: number; weight: number; contribution: number; detail: string };
+export type PriorityBreakdown = { total: number; components: ScoreComponent[] };
+
+type ChatSignal = { value: number; detail: string };
+
+export type ScoringContext = {
+  now: number;
+  weights: Record<ScoreFactor, number>;
+  closenessByChat: Map<string, ChatSignal>;
+  feedbackByChat: Map<string, ChatSignal>;
+};
+
+export function emptyScoringContext(now = Date.now()): ScoringContext {
+  return { now, weights: scoringConfig.weights, closenessByChat: new Map(), feedbackByChat: new Map() };
+}
+
+const round = (n: number, dp = 2) => Math.round(n * 10 ** dp) / 10 ** dp;
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// Relationship closeness (message volume over 30 days, blended with the latest snapshot's emotional intimacy)
+// and user feedback (completed vs dismissed loops in the chat over 30 days) for the chats being ranked.
+export async function loadScoringContext(chatIds: string[], now = Date.now()): Promise<ScoringContext> {
+  const ctx = emptyScoringContext(now);
+  const ids = Array.from(new Set(chatIds.filter(Boolean)));
+  if (!ids.length) return ctx;
+
+  const volume = new Map<string, number>();
+  try {
+    const res = await pool.query(
+      "SELECT chat_id, COUNT(*) AS n FROM messages WHERE chat_id = ANY($1::text[]) AND ts >= $2 GROUP BY chat_id",
+      [ids, now - CLOSENESS_WINDOW_DAYS * DAY_MS]
+    );
+    for (const r of res.rows ?? []) volume.set(r.chat_id, Number(r.n ?? 0));
+  } catch (err) {
+    console.error("[priorityScoring] message volume failed", err);
+  }
+  const intimacy = new Map<string, number>();
+  try {
+    const snapshots = await getLatestSnapshots(1000);
+    for (const s of snapshots) {
+      const v = Number(s.model?.intimacy?.emotional);
+      if (ids.includes(s.chatId) && Number.isFinite(v)) intimacy.set(s.chatId, clamp01(v / 100));
+    }
+  } catch (err) {
+    console.error("[priorityScoring] relationship snapshots failed", err);
+  }
+  for (const chatId of ids) {
+    const n = volume.get(chatId) ?? 0;
+    const volumeValue = clamp01(Math.log10(1 + n) / Math.log10(1 + CLOSENESS_FULL_AT_MESSAGES));
+    const emotional = intimacy.get(chatId);
+    const value = emotional === undefined ? volumeValue : (volumeValue + emotional) / 2;
+    const detail = `${n} msgs/${CLOSENESS_WINDOW_DAYS}d${emotional === undefined ? "" : `, emotional intimacy ${Math.round(emotional * 100)}`}`;
+    ctx.closenessByChat.set(chatId, { value: round(value), detail });
+  }
+
+  try {
+    const res = await pool.query(
+      `
+      SELECT chat_id,
+             COUNT(*) FILTER (WHERE event_type = 'closed') AS done,
+             COUNT(*) FILTER (WHERE event_type = 'dismissed') AS dismissed
+      FROM open_loop_events
+      WHERE chat_id = ANY($1::text[]) AND actor = 'user' AND ts >= $2
+      GROUP BY chat_id
+      `,
+      [ids, now - FEEDBACK_WINDOW_DAYS * DAY_MS]
+    );
+    for (const r of res.rows ?? []) {
+      const done = Number(r.done ?? 0);
+      const dismissed = Number(r.dismissed ?? 0);
+      // +2 smoothing: a single action shouldn't swing the score fully
+      const value = (done - dismissed) / (done + dismissed + 2);
+      ctx.feedbackByChat.set(r.chat_id, { value: round(value), detail: `${done} completed, ${dismissed} dismissed in ${FEEDBACK_WINDOW_DAYS}d` });
+    }
+  } catch (err) {
+    console.error("[priorityScoring] feedback failed", err);
+  }
+  return ctx;
+}
+
+export function scoreLoop(input: ScoreInput, ctx: ScoringContext): PriorityBreakdown {
+  const w = ctx.weights;
+  const components: ScoreComponent[] = [];
+  const add = (factor: ScoreFactor, value: number, detail: string) => {
+    components.push({ factor, value: round(value), weight: w[factor], contribution: round(value * w[factor]), detail });
+  };
+
+  const urgency = String(input.urgency ?? "low");
+  add("urgency", URGENCY_VALUE[urgency] ?? URGENCY_VALUE.low, urgency);
+
+  const importance = Number(input.importance ?? 1);
+  add("importance", clamp01((Number.isFinite(importance) ? importance : 1) / 10), `${importance}/10`);
+
+  if (input.whenMs != null && Number.isFinite(input.whenMs)) {
+    const days = (input.whenMs - ctx.now) / DAY_MS;
+    // overdue or within a day = 1, fading to 0 at the horizon
+    const value = days <= 1 ? 1 : clamp01(1 - (days - 1) / (PROXIMITY_HORIZON_DAYS - 1));
+    add("timeProximity", value, days < 0 ? `overdue by ${round(-days, 1)}d` : `due in ${round(days, 1)}d`);
+  } else {
+    add("timeProximity", 0, "no date");
+  }
+
+  const closeness = ctx.closenessByChat.get(input.chatId);
+  add("relationship", closeness?.value ?? 0, closeness?.detail ?? "no data");
+
+  const lastSeen = input.lastSeenTs ?? ctx.now;
+  const ageDays = Math.max(0, (ctx.now - lastSeen) / DAY_MS);
+  add("staleness", clamp01(ageDays / STALE_HORIZON_DAYS), `last mentioned ${round(ageDays, 1)}d ago`);
+
+  const confidence = Number(input.confidence ?? 0.5);
+  add("confidence", clamp01(Number.isFinite(confidence) ? confidence : 0.5), `${round(confidence)}`);
+
+  const feedback = ctx.feedbackByChat.get(input.chatId);
+  add("feedback", feedback?.value ?? 0, feedback?.detail ?? "no actions");
+
+  const surfaceType = String(input.surfaceType ?? "info_to_save");
+  add("actionType", ACTION_TYPE_VALUE[surfaceType] ?? ACTION_TYPE_VALUE.info_to_save, surfaceType);
+
+  return { total: round(components.reduce((sum, c) => sum + c.contribution, 0)), components };
+}
@@ -1,7 +1,8 @@
 import fs from "fs";
 import path from "path";
 import { callLLM } from "../llm.js";
-import { buildHeatTriagePrompt, HeatTriageChatSlice } from "../prompts.js";
+import { checkLlmBudget, summarizeBudget } from "../llmBudget.js";
+import { buildHeatTriagePrompt, HeatTriageChatSlice, HeatTriageOutput, PROMPT_VERSIONS } from "../prompts.js";
 import { getActiveChats, getRecentMessages } from "../intel/messageStore.js";
 
 type HeatTier = "LOW" | "MED" | "HIGH";
@@ -12,6 +13,7 @@ type RadarParams = {
   includeGroups: boolean;
   runType?: string;
   execute?: boolean;
+  runId?: number | null;
 };
 
 type LlmHeatResult = {
@@ -146,6 +148,19 @@ function validateEvidence(result: HeatTriageTopChat, messages: { id: string; bod
 
 export async function runRadar(params: RadarParams) {
   const { limitChats, limitPerChat, includeGroups, runType = "manual", execute } = params;
+  let budget = await checkLlmBudget("heatTriage", { runId: params.runId });
+  if (budget.action === "skip") {
+    // Leave heat_triage_latest.json alone; the previous triage stays the freshest useful one.
+    return {
+      storedAt: Date.now(),
+      params: { limitChats, limitPerChat, includeGroups, runType, execute },
+      skipped: true,
+      reasonCode: budget.reasonCode,
+      budget: summarizeBudget(budget),
+      summary: { chatsProcessed: 0, batches: 0, messagesProcessed: 0, batchesFailed: 0, batchesRetried: 0, chatsFallback: 0, batchesSkippedBudget: 0 },
+      topChats: [] as HeatTriageTopChat[],
+    };
+  }
   const chats = await getActiveChats(limitChats);
   const filteredChats = chats.filter((c) => {
     const chatId = c.chatId;
@@ -181,16 +196,37 @@ export async function runRadar(params: RadarParams) {
   let batchesRetried = 0;
   let batchesFailed = 0;
   let chatsFallback = 0;
+  let batchesSkippedBudget = 0;
 
   for (const batch of batches) {
     if (!batch.length) continue;
-    let llmResult: any;
+    // Re-check between batches so a per-run budget can stop a large triage part-way.
+    budget = await checkLlmBudget("heatTriage", { runId: params.runId });
+    if (budget.action === "skip") {
+      batchesSkippedBudget++;
+      for (const fallback of batch) {
+        chatsFallback++;
+        results.push({
+          chatId: fallback.chatId,
+          chatDisplayName: fallback.chatDisplayName,
+          heatTier: "LOW",
+          heatScore: 0,
+          signals: ["UNKNOWN"],
+          why: "budget_exceeded",
+          recommendedBackfill: backfillForTier("LOW"),
+          evidenceMessageId: null,
+          evidenceText: null,
+        });
+      }
+      continue;
+    }
+    let llmResult: HeatTriageOutput | null = null;
     let attempt = 0;
     let success = false;
     while (attempt < 2 && !success) {
       attempt++;
       try {
-        llmResult = await withinTimeout(callLLM<any>("heatTriage", buildHeatTriagePrompt(batch)), BATCH_TIMEOUT_MS);
+        llmResult = await withinTimeout(callLLM<HeatTriageOutput>("heatTriage", buildHeatTriagePrompt(batch), { runId: params.runId, model: budget.model }), BATCH_TIMEOUT_MS);
         success = true;
       } catch (err) {
         if (attempt === 1) batchesRetried++;
@@ -219,11 +255,7 @@ export async function runRadar(params: RadarParams) {
       }
       continue;
     }
-    const rawResults: LlmHeatResult[] = Array.isArray(llmResult)
-      ? llmResult
-      : Array.isArray(llmResult?.results)
-        ? llmResult.results
-        : [];
+    const rawResults: LlmHeatResult[] = llmResult?.results ?? [];
     for (const fallback of batch) {
       const match = rawResults.find((r) => r.chatId === fallback.chatId);
       const tier = normalizeTier(match?.heatTier ?? "LOW");
@@ -262,6 +294,10 @@ export async function runRadar(params: RadarParams) {
   const payload = {
     storedAt,
     params: { limitChats, limitPerChat, includeGroups, runType, execute },
+    skipped: false,
+    reasonCode: budget.reasonCode,
+    budget: summarizeBudget(budget),
+    promptVersion: PROMPT_VERSIONS.heatTriage,
     summary: {
       chatsProcessed: results.length,
       batches: batches.length,
@@ -269,6 +305,7 @@ export async function runRadar(params: RadarParams) {
       batchesFailed,
       batchesRetried,
       chatsFallback,
+      batchesSkippedBudget,
     },
     topChats: sorted,
   };
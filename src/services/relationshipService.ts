@@ -82,6 +82,7 @@ export async function generateRelationshipSnapshot(
     lastMessageTs,
     messageCount: metrics.totalMessages,
     modelUsed: getModelName("relationship"),
+    promptVersion: prompt.promptVersion,
   };
 
   await saveRelationshipSnapshot(snapshot);
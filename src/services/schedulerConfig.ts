@@ -14,4 +14,8 @@ export const schedulerConfig = {
   coverageFallbackAfterMs: Number(process.env.ORCH_COVERAGE_FALLBACK_AFTER_MS ?? 7_200_000),
   jobWorkerEnabled: String(process.env.ORCH_JOB_WORKER_ENABLED ?? "true").toLowerCase() === "true",
   jobWorkerLimit: Number(process.env.ORCH_JOB_WORKER_LIMIT ?? 2),
+  // Per-chat open loops refresh once a dirty chat (ingest / watermark sync) has been quiet this long.
+  openLoopsChatEnabled: String(process.env.ORCH_OPEN_LOOPS_CHAT_ENABLED ?? "true").toLowerCase() === "true",
+  openLoopsQuietMs: Number(process.env.ORCH_OPEN_LOOPS_QUIET_MINUTES ?? 10) * 60_000,
+  openLoopsChatMaxPerTick: Number(process.env.ORCH_OPEN_LOOPS_CHAT_MAX_PER_TICK ?? 20),
 };
@@ -1,3 +1,4 @@
+import { z } from "zod";
 import { callLLM, getModelFor, getModelName } from "../llm.js";
 import { RelationalFacetContact, UserProfile } from "../types.js";
 import { loadLatestUserProfile, saveUserProfile } from "../userProfileStore.js";
@@ -7,6 +8,21 @@ import { getTopRelationshipsFromSnapshots } from "./relationshipService.js";
 
 const USER_PROFILE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
 
+// Missing sections fall back to defaults below, so only reject sections that aren't objects.
+const profileSection = z.object({}).passthrough().optional();
+const userProfileResponseSchema = z
+  .object({
+    communicationStyle: profileSection,
+    emotionalPatterns: profileSection,
+    relationalPatterns: profileSection,
+    copingAndHabits: profileSection,
+    valuesAndMotivation: profileSection,
+    riskEdges: profileSection,
+    strengths: profileSection,
+    relationalFacets: z.object({}).passthrough().nullable().optional(),
+  })
+  .passthrough();
+
 export async function getUserProfile(): Promise<UserProfile | null> {
   return loadLatestUserProfile();
 }
@@ -85,6 +101,7 @@ ${JSON.stringify(topRelationships, null, 2)}
         { role: "system", content: system },
         { role: "user", content: userPayload },
       ],
+      schema: userProfileResponseSchema,
     });
   } catch (err) {
     console.error("[userProfile] LLM call failed", {
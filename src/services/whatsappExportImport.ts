@@ -0,0 +1,282 @@
+import crypto from "node:crypto";
+import { isZip, readZipEntries, ZipEntry } from "../utils/zip.js";
+import { getTzOffsetMinutes } from "../utils/when.js";
+import { IngestMessage, renameChat, upsertMessages } from "./dataPersistence.js";
+import { getChatState, upsertChatState } from "./chatPipelineState.js";
+
+// Importer for WhatsApp "Export chat" files (.txt, or the .zip WhatsApp shares with media).
+// Handles the Android ("31/12/2020, 23:59 - Name: text") and iOS ("[31/12/2020, 23:59:59] Name: text")
+// layouts across the common locale variants: D/M/Y vs M/D/Y vs Y-M-D, ".", "/" or "-" date separators,
+// 12h clocks with "PM" / "p. m." / narrow no-break spaces, and "à"/"um" before the time.
+
+export type DateOrder = "DMY" | "MDY" | "YMD";
+
+export type ParsedExportMessage = {
+  ts: number;
+  sender: string | null; // null = system line ("Messages and calls are end-to-end encrypted", ...)
+  body: string;
+};
+
+export type ParsedExport = {
+  messages: ParsedExportMessage[];
+  participants: string[];
+  dateOrder: DateOrder;
+  systemLines: number;
+  unparsedLines: number;
+};
+
+export type ImportWhatsAppExportOpts = {
+  chatId?: string | null;
+  chatName?: string | null;
+  // Export sender names that are the user ("ME"); falls back to WHATSAPP_EXPORT_OWNER_NAMES
+  ownerNames?: string[];
+  dateOrder?: DateOrder | null;
+  // IANA zone the exporting phone was in; exports carry local wall-clock times only
+  tz?: string | null;
+  // Zip entry name, or the uploaded file name; "WhatsApp Chat with X.txt" yields the chat name
+  fileName?: string | null;
+  dryRun?: boolean;
+};
+
+export class WhatsAppExportImportError extends Error {
+  constructor(public reasonCode: string, message: string, public details?: any) {
+    super(message);
+    this.name = "WhatsAppExportImportError";
+  }
+}
+
+const DEFAULT_TZ = process.env.WHATSAPP_EXPORT_TZ ?? process.env.ORCH_TZ ?? "Europe/London";
+const DEFAULT_OWNER_NAMES = String(process.env.WHATSAPP_EXPORT_OWNER_NAMES ?? "")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(Boolean);
+const UPSERT_BATCH = 1000;
+
+// Invisible marks WhatsApp sprinkles into exports (LRM/RLM, BOM) and odd spaces around times.
+// iOS prefixes system notices and attachment lines with an LRM right after "Name: ".
+const INVISIBLE = /[\u200e\u200f\ufeff\u202a-\u202e]/g;
+const ODD_SPACES = /[\u00a0\u202f\u2007]/g;
+
+const HEADER =
+  /^\[?(\d{1,4})([./-])(\d{1,2})\2(\d{1,4}),?\s+(?:à\s+|um\s+|a las\s+)?(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\s*([ap])\.?\s?m\.?)?\]?\s*(?:[-–]\s+)?(.*)$/i;
+const SENDER = /^([^:]{1,80}?):\s(.*)$/s;
+const ATTACHMENT = /^<attached: .+>$|omitted>?$|\(file attached\)$/i;
+
+type RawHeader = { a: number; b: number; c: number; hour: number; minute: number; second: number; meridiem: string | null; rest: string };
+
+function matchHeader(line: string): RawHeader | null {
+  const m = line.match(HEADER);
+  if (!m) return null;
+  return {
+    a: Number(m[1]),
+    b: Number(m[3]),
+    c: Number(m[4]),
+    hour: Number(m[5]),
+    minute: Number(m[6]),
+    second: Number(m[7] ?? 0),
+    meridiem: m[8] ? m[8].toLowerCase() : null,
+    rest: m[9] ?? "",
+  };
+}
+
+// Decides D/M/Y vs M/D/Y from the whole file: any first field > 12 means day-first, any second field > 12
+// means month-first; when the file never disambiguates, the caller's hint (or day-first) wins.
+function detectDateOrder(headers: RawHeader[], hint?: DateOrder | null): DateOrder {
+  if (headers.some((h) => h.a > 31)) return "YMD";
+  if (headers.some((h) => h.a > 12)) return "DMY";
+  if (headers.some((h) => h.b > 12)) return "MDY";
+  return hint ?? "DMY";
+}
+
+// Wall-clock time in `tz` -> epoch ms (second pass settles DST boundaries).
+function zonedToEpochMs(y: number, mo: number, d: number, h: number, mi: number, s: number, tz: string): number {
+  const guess = Date.UTC(y, mo - 1, d, h, mi, s);
+  const first = guess - getTzOffsetMinutes(tz, new Date(guess)) * 60_000;
+  return guess - getTzOffsetMinutes(tz, new Date(first)) * 60_000;
+}
+
+function toEpochMs(h: RawHeader, order: DateOrder, tz: string): number | null {
+  let [year, month, day] = order === "YMD" ? [h.a, h.b, h.c] : order === "MDY" ? [h.c, h.a, h.b] : [h.c, h.b, h.a];
+  if (year < 100) year += 2000;
+  let hour = h.hour;
+  if (h.meridiem === "p" && hour < 12) hour += 12;
+  if (h.meridiem === "a" && hour === 12) hour = 0;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || h.minute > 59) return null;
+  return zonedToEpochMs(year, month, day, hour, h.minute, h.second, tz);
+}
+
+export function parseWhatsAppExport(text: string, opts: { dateOrder?: DateOrder | null; tz?: string | null } = {}): ParsedExport {
+  const tz = opts.tz || DEFAULT_TZ;
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((l) => l.replace(/^[\u200e\u200f\ufeff]+/, "").replace(ODD_SPACES, " "));
+
+  // First pass: find header lines; everything else continues the previous message.
+  const blocks: { header: RawHeader; body: string[] }[] = [];
+  let unparsedLines = 0;
+  for (const line of lines) {
+    const header = matchHeader(line);
+    if (header) {
+      blocks.push({ header, body: [header.rest] });
+    } else if (blocks.length) {
+      blocks[blocks.length - 1].body.push(line);
+    } else if (line.trim()) {
+      unparsedLines++;
+    }
+  }
+
+  const dateOrder = detectDateOrder(blocks.map((b) => b.header), opts.dateOrder);
+  const messages: ParsedExportMessage[] = [];
+  const participants = new Set<string>();
+  let systemLines = 0;
+  for (const block of blocks) {
+    const ts = toEpochMs(block.header, dateOrder, tz);
+    if (ts === null) {
+      unparsedLines++;
+      continue;
+    }
+    const full = block.body.join("\n").trimEnd();
+    const m = full.match(SENDER);
+    if (!m) {
+      systemLines++;
+      messages.push({ ts, sender: null, body: full.replace(INVISIBLE, "") });
+      continue;
+    }
+    const body = m[2].replace(INVISIBLE, "");
+    if (m[2].startsWith("\u200e") && !ATTACHMENT.test(body)) {
+      systemLines++;
+      messages.push({ ts, sender: null, body });
+      continue;
+    }
+    // unsaved contacts show up as "~ Name"
+    const sender = m[1].replace(INVISIBLE, "").replace(/^~\s*/, "").trim();
+    participants.add(sender);
+    messages.push({ ts, sender, body });
+  }
+  return { messages, participants: Array.from(participants), dateOrder, systemLines, unparsedLines };
+}
+
+// "WhatsApp Chat with Alice.txt" / "WhatsApp Chat - Alice.zip" -> "Alice"
+export function chatNameFromFileName(fileName?: string | null): string | null {
+  if (!fileName) return null;
+  const base = fileName.split(/[\\/]/).pop() ?? fileName;
+  const m = base.match(/^WhatsApp Chat (?:with|-|mit|con|avec)\s+(.+?)\.(?:txt|zip)$/i);
+  return m ? m[1].trim() : null;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function syntheticChatId(chatName: string, isGroup: boolean): string {
+  const hash = crypto.createHash("sha1").update(chatName).digest("hex").slice(0, 16);
+  return `export_${hash}@${isGroup ? "g.us" : "c.us"}`;
+}
+
+// Unpacks zip uploads (picking the chat transcript) and decodes text.
+export function readExportPayload(buf: Buffer, fileName?: string | null): { text: string; fileName: string | null } {
+  if (!isZip(buf)) return { text: buf.toString("utf8"), fileName: fileName ?? null };
+  let entries: ZipEntry[];
+  try {
+    entries = readZipEntries(buf, (name) => name.toLowerCase().endsWith(".txt"));
+  } catch (err: any) {
+    // truncated or malformed archive (bad headers, short buffer, failed inflate)
+    throw new WhatsAppExportImportError("EXPORT_ZIP_INVALID", "zip could not be read", { cause: err?.message ?? String(err) });
+  }
+  const transcript = entries.find((e) => /(^|\/)_chat\.txt$/i.test(e.name)) ?? entries.find((e) => /whatsapp/i.test(e.name)) ?? entries[0];
+  if (!transcript) throw new WhatsAppExportImportError("EXPORT_ZIP_NO_TRANSCRIPT", "zip contains no .txt chat transcript");
+  const entryName = /(^|\/)_chat\.txt$/i.test(transcript.name) ? fileName ?? null : transcript.name;
+  return { text: transcript.data.toString("utf8"), fileName: entryName };
+}
+
+export async function importWhatsAppExport(buf: Buffer, opts: ImportWhatsAppExportOpts = {}) {
+  const { text, fileName } = readExportPayload(buf, opts.fileName);
+  const parsed = parseWhatsAppExport(text, { dateOrder: opts.dateOrder, tz: opts.tz });
+  const chatMessages = parsed.messages.filter((m) => m.sender !== null);
+  if (!chatMessages.length) {
+    throw new WhatsAppExportImportError("EXPORT_NO_MESSAGES", "no chat messages recognised in export", {
+      systemLines: parsed.systemLines,
+      unparsedLines: parsed.unparsedLines,
+    });
+  }
+
+  const chatName = opts.chatName?.trim() || chatNameFromFileName(fileName) || chatNameFromFileName(opts.fileName) || null;
+  const owners = new Set([...(opts.ownerNames ?? []), ...DEFAULT_OWNER_NAMES].map(normalizeName));
+  // Two-person chat named after one participant: the other one exported it.
+  if (chatName && parsed.participants.length === 2 && !parsed.participants.some((p) => owners.has(normalizeName(p)))) {
+    const named = parsed.participants.find((p) => normalizeName(p) === normalizeName(chatName));
+    const other = parsed.participants.find((p) => p !== named);
+    if (named && other) owners.add(normalizeName(other));
+  }
+  const matchedOwners = parsed.participants.filter((p) => owners.has(normalizeName(p)));
+  if (!matchedOwners.length) {
+    throw new WhatsAppExportImportError("EXPORT_OWNER_UNRESOLVED", "cannot tell which sender is the user; pass owner names", {
+      participants: parsed.participants,
+    });
+  }
+
+  const others = parsed.participants.filter((p) => !owners.has(normalizeName(p)));
+  const isGroup = others.length > 1 || (opts.chatId ?? "").endsWith("@g.us");
+  const resolvedName = chatName ?? (others.length === 1 ? others[0] : null);
+  const chatId = opts.chatId?.trim() || syntheticChatId(resolvedName ?? others.join(","), isGroup);
+
+  // Ids are content-derived so re-importing the same export upserts instead of duplicating.
+  const seen = new Map<string, number>();
+  const messages: IngestMessage[] = chatMessages.map((m) => {
+    const fromMe = owners.has(normalizeName(m.sender!));
+    const base = `${chatId}|${m.ts}|${m.sender}|${m.body}`;
+    const dup = seen.get(base) ?? 0;
+    seen.set(base, dup + 1);
+    const id = `waexport_${crypto.createHash("sha1").update(`${base}|${dup}`).digest("hex").slice(0, 24)}`;
+    return {
+      id,
+      chatId,
+      senderId: fromMe ? "me" : m.sender,
+      displayName: fromMe ? null : m.sender,
+      fromMe,
+      body: m.body,
+      ts: m.ts,
+    };
+  });
+
+  // a loop, not Math.min(...spread): large exports overflow the argument limit
+  let oldestTs = messages[0].ts!;
+  let newestTs = messages[0].ts!;
+  for (const m of messages) {
+    if (m.ts! < oldestTs) oldestTs = m.ts!;
+    if (m.ts! > newestTs) newestTs = m.ts!;
+  }
+  const summary = {
+    chatId,
+    chatName: resolvedName,
+    isGroup,
+    dateOrder: parsed.dateOrder,
+    tz: opts.tz || DEFAULT_TZ,
+    messagesParsed: messages.length,
+    fromMeCount: messages.filter((m) => m.fromMe).length,
+    ownerNames: matchedOwners,
+    participants: parsed.participants,
+    systemLines: parsed.systemLines,
+    unparsedLines: parsed.unparsedLines,
+    oldestTs,
+    newestTs,
+    dryRun: !!opts.dryRun,
+  };
+  if (opts.dryRun) return summary;
+
+  for (let i = 0; i < messages.length; i += UPSERT_BATCH) {
+    await upsertMessages(chatId, messages.slice(i, i + UPSERT_BATCH));
+  }
+  if (resolvedName) await renameChat(chatId, resolvedName);
+
+  const state = await getChatState(chatId);
+  const prevOldest = Number(state?.oldest_ts_seen_ms ?? 0) || null;
+  const prevNewest = Number(state?.newest_ts_seen_ms ?? 0) || null;
+  await upsertChatState(chatId, {
+    oldest_ts_seen_ms: prevOldest ? Math.min(prevOldest, oldestTs) : oldestTs,
+    newest_ts_seen_ms: prevNewest ? Math.max(prevNewest, newestTs) : newestTs,
+    seen_msg_count: Math.max(Number(state?.seen_msg_count ?? 0) || 0, messages.length),
+  });
+  return summary;
+}
@@ -18,6 +18,10 @@ interface AnalyzeWindowParams {
   fromTs: number;
   toTs: number;
   force?: boolean;
+  runId?: number | null;
+  // Model for the window-level call; defaults to the registry model (the budget check may pick a cheaper one).
+  model?: string;
+  bypassCache?: boolean;
 }
 
 interface WindowSummary {
@@ -359,7 +363,7 @@ function mapCategoryToType(cat: OpenLoopItem["category"] | undefined): WindowOpe
 async function extractOpenLoopsPerChat(
   messages: ReturnType<typeof toSummaryMessages>,
   contactMeta: ContactMeta[],
-  opts: { force: boolean; checkpoints: Record<string, ChatCheckpoint>; debug?: boolean }
+  opts: { force: boolean; checkpoints: Record<string, ChatCheckpoint>; debug?: boolean; runId?: number | null; bypassCache?: boolean }
 ): Promise<{
   loops: WindowOpenLoop[];
   perChatSummary: Record<
@@ -440,7 +444,7 @@ async function extractOpenLoopsPerChat(
       openLoops: [],
     };
     try {
-      resp = await callLLM<typeof resp>("openLoops", prompt);
+      resp = await callLLM<typeof resp>("openLoops", prompt, { runId: opts.runId, chatId, bypassCache: opts.bypassCache });
     } catch (err) {
       console.error("[windowAnalysis] per-chat openLoops LLM failed", { chatId, err });
       continue;
@@ -724,6 +728,7 @@ function normaliseWindowAnalysis(
 export async function analyzeWindow(params: AnalyzeWindowParams): Promise<WindowAnalysis> {
   const { fromTs, toTs } = params;
   const force = !!params.force;
+  const model = params.model ?? getModelName("window");
 
   if (!force) {
     const existing = await loadWindowAnalysesBetween(fromTs, toTs);
@@ -777,7 +782,7 @@ export async function analyzeWindow(params: AnalyzeWindowParams): Promise<Window
         events: [],
         relationshipMentions: [],
         windowSummary: "No messages in this window.",
-        modelUsed: getModelName("window"),
+        modelUsed: model,
       },
       { fromTs, toTs },
       contactMeta
@@ -787,10 +792,14 @@ export async function analyzeWindow(params: AnalyzeWindowParams): Promise<Window
   }
 
   const prompt = buildWindowAnalysisPrompt(summaryMessages, { fromTs, toTs });
-  console.info("Window analysis LLM model", { model: getModelName("window") });
+  console.info("Window analysis LLM model", { model });
   let rawAnalysis: Partial<WindowAnalysis> = {};
   try {
-    rawAnalysis = await callLLM<Partial<WindowAnalysis>>("window", prompt);
+    rawAnalysis = await callLLM<Partial<WindowAnalysis>>("window", prompt, {
+      runId: params.runId,
+      model,
+      bypassCache: params.bypassCache,
+    });
     console.info("[windowAnalysis] LLM response stats", {
       fromTs,
       toTs,
@@ -802,7 +811,7 @@ export async function analyzeWindow(params: AnalyzeWindowParams): Promise<Window
     }
   } catch (err) {
     console.error("[windowAnalysis] LLM call failed", {
-      model: getModelName("window"),
+      model,
       fromTs,
       toTs,
       error: (err as Error)?.message ?? err,
@@ -828,6 +837,8 @@ export async function analyzeWindow(params: AnalyzeWindowParams): Promise<Window
       force,
       checkpoints,
       debug: process.env.DEBUG_INTEL === "1",
+      runId: params.runId,
+      bypassCache: params.bypassCache,
     });
     rawAnalysis.openLoops = loops;
     // Merge per-chat summaries back into contacts
@@ -862,7 +873,7 @@ export async function analyzeWindow(params: AnalyzeWindowParams): Promise<Window
   }
 
   const normalised = normaliseWindowAnalysis(
-    { ...rawAnalysis, modelUsed: getModelName("window") },
+    { ...rawAnalysis, modelUsed: model },
     { fromTs, toTs },
     contactMeta
   );
@@ -870,7 +881,11 @@ export async function analyzeWindow(params: AnalyzeWindowParams): Promise<Window
   return normalised;
 }
 
-export async function backfillWindowsForLastHours(hours: number, force = false): Promise<WindowAnalysis[]> {
+export async function backfillWindowsForLastHours(
+  hours: number,
+  force = false,
+  opts: { runId?: number | null; model?: string; bypassCache?: boolean } = {}
+): Promise<WindowAnalysis[]> {
   const now = Date.now();
   const start = now - hours * 60 * 60 * 1000;
 
@@ -890,7 +905,7 @@ export async function backfillWindowsForLastHours(hours: number, force = false):
     }
 
     try {
-      const analysis = await analyzeWindow({ fromTs, toTs, force });
+      const analysis = await analyzeWindow({ fromTs, toTs, force, runId: opts.runId, model: opts.model, bypassCache: opts.bypassCache });
       analyses.push(analysis);
     } catch (err) {
       console.error("Failed to analyze window", { fromTs, toTs, err });
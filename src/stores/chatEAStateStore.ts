@@ -20,6 +20,8 @@ export type EAOpenLoop = {
   dependsOnTaskGoal?: string;
   lastSeenTs?: number;
   blockedReason?: string;
+  blockedBy?: { loopId: string; chatId: string; summary: string }[];
+  recurrence?: string; // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=SU (utils/recurrence.ts)
   confidence: number;
   importance: number;
   urgency: "low" | "moderate" | "high";
@@ -29,6 +31,13 @@ export type EAOpenLoop = {
   evidenceInferred?: boolean;
   evidenceSummary?: string;
   lane?: "now" | "later" | "backlog";
+  promptVersion?: string; // PROMPT_VERSIONS id of the builder that produced this loop
+  // Set by the closure pass (loopClosureService) when a later message shows the task happened
+  closedByMessageId?: string;
+  closureEvidence?: string;
+  closureConfidence?: number;
+  closureReason?: string;
+  closedTs?: number;
 };
 
 export type ChatEAState = {
@@ -38,6 +47,7 @@ export type ChatEAState = {
   lastProcessedMessageTs: number;
   openLoops: EAOpenLoop[];
   modelUsed: string;
+  promptVersion?: string;
 };
 
 const DB_PATH = path.join(process.cwd(), "out", "chat_ea_state.jsonl");
@@ -1,5 +1,6 @@
 import fs from "fs/promises";
 import path from "path";
+import { LoopClosure } from "../services/loopClosureService.js";
 
 export interface DropRecord {
   reason: string;
@@ -17,6 +18,9 @@ export interface EARunRecord {
   rawOpenLoops: any[];
   sanitizedOpenLoops: any[];
   dropped: DropRecord[];
+  cacheHit?: boolean;
+  promptVersion?: string;
+  closures?: LoopClosure[];
 }
 
 const BASE_DIR = path.join(process.cwd(), "out", "ea_runs");
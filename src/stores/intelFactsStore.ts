@@ -20,6 +20,7 @@ export type IntelFactRecord = {
   evidenceText: string;
   ts: number;
   runType?: string;
+  promptVersion?: string;
   storedAt: number;
 };
 
@@ -157,6 +157,7 @@ export interface RelationshipSnapshot {
   lastMessageTs?: number | null;
   messageCount?: number;
   modelUsed?: string;
+  promptVersion?: string;
 }
 
 export interface WindowContactSlice {
@@ -0,0 +1,112 @@
+import { getTzOffsetMinutes } from "./when.js";
+
+// Minimal RFC 5545 writer: text escaping, 75-octet line folding, UTC/zoned date-times and a VTIMEZONE
+// generated from Intl offsets (explicit transitions, no RRULEs) so TZID references resolve in any client.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+export function foldIcsLine(line: string): string {
+  const out: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const len = Buffer.byteLength(ch, "utf8");
+    // continuation lines start with a space, which counts towards their 75 octets
+    if (bytes + len > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += ch;
+    bytes += len;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+
+export function formatIcsUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+// Wall-clock time of `date` in `tz`, for DTSTART;TZID=... values.
+export function formatIcsLocal(date: Date, tz: string): string {
+  return formatIcsUtc(new Date(date.getTime() + getTzOffsetMinutes(tz, date) * 60_000)).slice(0, -1);
+}
+
+// "YYYY-MM-DD" -> "YYYYMMDD" (VALUE=DATE), optionally shifted by whole days.
+export function formatIcsDate(ymd: string, addDays = 0): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d) + addDays * DAY_MS);
+  return `${dt.getUTCFullYear()}${pad(dt.getUTCMonth() + 1)}${pad(dt.getUTCDate())}`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function findTransition(tz: string, lo: number, hi: number): number {
+  const before = getTzOffsetMinutes(tz, new Date(lo));
+  while (hi - lo > 60_000) {
+    const mid = lo + Math.floor((hi - lo) / 2);
+    if (getTzOffsetMinutes(tz, new Date(mid)) === before) lo = mid;
+    else hi = mid;
+  }
+  // zone transitions fall on whole minutes
+  return Math.floor(hi / 60_000) * 60_000;
+}
+
+export function buildVTimezone(tz: string, fromYear: number, toYear: number): string[] {
+  const start = Date.UTC(fromYear, 0, 1);
+  const end = Date.UTC(toYear + 1, 0, 1);
+  const transitions: { at: number; from: number; to: number }[] = [];
+  let prevOffset = getTzOffsetMinutes(tz, new Date(start));
+  for (let t = start + DAY_MS; t <= end; t += DAY_MS) {
+    const offset = getTzOffsetMinutes(tz, new Date(t));
+    if (offset !== prevOffset) {
+      transitions.push({ at: findTransition(tz, t - DAY_MS, t), from: prevOffset, to: offset });
+      prevOffset = offset;
+    }
+  }
+
+  const initial = getTzOffsetMinutes(tz, new Date(start));
+  const standardOffset = Math.min(initial, ...transitions.map((tr) => tr.to));
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${tz}`];
+  const component = (at: number, from: number, to: number) => {
+    const kind = to > standardOffset ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatIcsUtc(new Date(at + from * 60_000)).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`
+    );
+  };
+  component(start, initial, initial);
+  for (const tr of transitions) component(tr.at, tr.from, tr.to);
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+export function buildIcsCalendar(opts: { prodId: string; name: string; tz: string; years: [number, number]; components: string[][] }): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${opts.prodId}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(opts.name)}`,
+    `X-WR-TIMEZONE:${opts.tz}`,
+    ...buildVTimezone(opts.tz, opts.years[0], opts.years[1]),
+    ...opts.components.flat(),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,40 @@
+// Structured diff of two prompt versions' outputs for the same input (POST /debug/prompts/compare).
+export type FieldChange = { field: string; a: unknown; b: unknown };
+
+export type PromptOutputDiff<T> = {
+  onlyA: T[];
+  onlyB: T[];
+  changed: { key: string; a: T; b: T; changes: FieldChange[] }[];
+  unchangedCount: number;
+};
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Items pair up by `keyOf`; only `fields` are compared, so ids/timestamps don't show up as noise.
+export function diffPromptOutputs<T>(a: T[], b: T[], keyOf: (item: T) => string, fields: (keyof T & string)[]): PromptOutputDiff<T> {
+  const byKeyB = new Map<string, T>();
+  for (const item of b) byKeyB.set(keyOf(item), item);
+  const seen = new Set<string>();
+  const diff: PromptOutputDiff<T> = { onlyA: [], onlyB: [], changed: [], unchangedCount: 0 };
+
+  for (const itemA of a) {
+    const key = keyOf(itemA);
+    const itemB = byKeyB.get(key);
+    if (!itemB || seen.has(key)) {
+      diff.onlyA.push(itemA);
+      continue;
+    }
+    seen.add(key);
+    const changes = fields
+      .filter((f) => !sameValue(itemA[f], itemB[f]))
+      .map((f) => ({ field: f, a: itemA[f], b: itemB[f] }));
+    if (changes.length) diff.changed.push({ key, a: itemA, b: itemB, changes });
+    else diff.unchangedCount++;
+  }
+  for (const [key, itemB] of byKeyB) {
+    if (!seen.has(key)) diff.onlyB.push(itemB);
+  }
+  return diff;
+}
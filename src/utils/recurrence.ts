@@ -0,0 +1,181 @@
+// RRULE subset for recurring loops ("call mum every Sunday", "pay rent on the 1st"): FREQ=DAILY|WEEKLY|MONTHLY|YEARLY
+// with INTERVAL, BYDAY (weekly) and BYMONTHDAY (monthly). Dates are plain "YYYY-MM-DD" days in the user's zone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type Recurrence = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+};
+
+const DAY_NAMES: Record<string, Weekday> = {
+  monday: "MO",
+  tuesday: "TU",
+  wednesday: "WE",
+  thursday: "TH",
+  friday: "FR",
+  saturday: "SA",
+  sunday: "SU",
+};
+const DAY_LABELS: Record<Weekday, string> = { MO: "Monday", TU: "Tuesday", WE: "Wednesday", TH: "Thursday", FR: "Friday", SA: "Saturday", SU: "Sunday" };
+const NUMBER_WORDS: Record<string, number> = { other: 2, second: 2, two: 2, three: 3, four: 4 };
+
+export function formatRRule(r: Recurrence): string {
+  const parts = [`FREQ=${r.freq}`];
+  if (r.interval > 1) parts.push(`INTERVAL=${r.interval}`);
+  if (r.byDay?.length) parts.push(`BYDAY=${r.byDay.join(",")}`);
+  if (r.byMonthDay) parts.push(`BYMONTHDAY=${r.byMonthDay}`);
+  return parts.join(";");
+}
+
+export function parseRRule(rrule: string | null | undefined): Recurrence | null {
+  if (!rrule) return null;
+  const fields = new Map(
+    rrule
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .map((p) => p.split("=").map((s) => s.trim().toUpperCase()) as [string, string])
+  );
+  const freq = fields.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") return null;
+  const interval = Number(fields.get("INTERVAL") ?? 1);
+  const byDay = (fields.get("BYDAY") ?? "").split(",").filter((d): d is Weekday => (WEEKDAYS as readonly string[]).includes(d));
+  const byMonthDay = Number(fields.get("BYMONTHDAY"));
+  return {
+    freq,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    ...(byDay.length ? { byDay } : {}),
+    ...(Number.isInteger(byMonthDay) && byMonthDay >= 1 && byMonthDay <= 31 ? { byMonthDay } : {}),
+  };
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+// "every Sunday", "every 2 weeks on Monday", "monthly on the 1st"
+export function describeRecurrence(r: Recurrence): string {
+  const every = (unit: string) => (r.interval > 1 ? `every ${r.interval} ${unit}s` : `every ${unit}`);
+  switch (r.freq) {
+    case "DAILY":
+      return every("day");
+    case "WEEKLY":
+      if (r.byDay?.length === 5 && !r.byDay.includes("SA") && !r.byDay.includes("SU") && r.interval === 1) return "every weekday";
+      if (r.byDay?.length) {
+        const days = r.byDay.map((d) => DAY_LABELS[d]).join(" and ");
+        return r.interval > 1 ? `${every("week")} on ${days}` : `every ${days}`;
+      }
+      return every("week");
+    case "MONTHLY":
+      return r.byMonthDay ? `${r.interval > 1 ? every("month") : "monthly"} on the ${ordinal(r.byMonthDay)}` : every("month");
+    default:
+      return every("year");
+  }
+}
+
+const STANDING_OBLIGATION_RE = /\b(rent|mortgage|bills?|subscriptions?|salary|payroll|allowance)\b/;
+
+// Only wording that states the repetition outright counts ("every"/"each", "daily"/"weekly"/..., "of every month"):
+// "on the 15th", "the annual gala" or "around on Sundays?" are one-offs. Returns null for those. The exception is
+// a day of the month for a standing obligation ("pay rent on the 1st", "phone bill on the 20th"), or when the LLM
+// marked the loop recurring: that is monthly.
+export function detectRecurrence(text: string | null | undefined, opts: { recurring?: boolean } = {}): Recurrence | null {
+  const t = (text ?? "").toLowerCase();
+  if (!t) return null;
+  const dayPattern = Object.keys(DAY_NAMES).join("|");
+
+  const intervalMatch = t.match(/\b(?:every|each) (\d+|other|second|two|three|four) (day|week|month|year)s?\b/);
+  const interval = intervalMatch ? Number(intervalMatch[1]) || NUMBER_WORDS[intervalMatch[1]] || 1 : 1;
+  const days = new Set<Weekday>();
+  // "every Monday and Thursday", "each tuesday, friday"
+  const dayRun = `(?:${dayPattern})s?(?:(?:, | and | & |, and )(?:${dayPattern})s?)*`;
+  // with a weekly interval stated, "on <day>" names the days too: "every 2 weeks on tuesday", "weekly on mondays"
+  const weeklyStated = intervalMatch?.[2] === "week" || /\b(fortnightly|biweekly|weekly|(every|each) (other )?week)\b/.test(t);
+  const dayLead = weeklyStated ? "(?:every|each|on)" : "(?:every|each)";
+  for (const m of t.matchAll(new RegExp(`\\b${dayLead} (?:other )?(${dayRun})\\b`, "g"))) {
+    for (const name of m[1].match(new RegExp(dayPattern, "g")) ?? []) days.add(DAY_NAMES[name]);
+  }
+  const dayList = WEEKDAYS.filter((d) => days.has(d));
+
+  if (/\b(every|each) weekday\b/.test(t)) return { freq: "WEEKLY", interval: 1, byDay: ["MO", "TU", "WE", "TH", "FR"] };
+  if (/\b(fortnightly|biweekly|every (2|two|other) weeks?)\b/.test(t)) {
+    return { freq: "WEEKLY", interval: 2, ...(dayList.length ? { byDay: dayList } : {}) };
+  }
+  if (dayList.length) return { freq: "WEEKLY", interval: intervalMatch?.[2] === "week" ? interval : new RegExp(`\\bevery other (${dayPattern})`).test(t) ? 2 : 1, byDay: dayList };
+  if (/\b(every|each) (day|morning|evening|night)\b|\b(daily|everyday|nightly)\b/.test(t) || intervalMatch?.[2] === "day") {
+    return { freq: "DAILY", interval: intervalMatch?.[2] === "day" ? interval : 1 };
+  }
+  if (/\b(every|each) week\b|\bweekly\b/.test(t) || intervalMatch?.[2] === "week") return { freq: "WEEKLY", interval: intervalMatch?.[2] === "week" ? interval : 1 };
+
+  const monthDay = t.match(/\b(?:on )?the (\d{1,2})(?:st|nd|rd|th)\b/) ?? t.match(/\b(\d{1,2})(?:st|nd|rd|th) of (?:every|each) month\b/);
+  const byMonthDay = monthDay && Number(monthDay[1]) >= 1 && Number(monthDay[1]) <= 31 ? Number(monthDay[1]) : undefined;
+  const monthlyStated = /\b(every|each) month\b|\bmonthly\b|\bof (every|each) month\b/.test(t) || intervalMatch?.[2] === "month";
+  if (monthlyStated || (byMonthDay && (STANDING_OBLIGATION_RE.test(t) || opts.recurring))) {
+    return { freq: "MONTHLY", interval: intervalMatch?.[2] === "month" ? interval : 1, ...(byMonthDay ? { byMonthDay } : {}) };
+  }
+  if (/\b(every|each) year\b|\b(yearly|annually)\b/.test(t) || intervalMatch?.[2] === "year") {
+    return { freq: "YEARLY", interval: intervalMatch?.[2] === "year" ? interval : 1 };
+  }
+  return null;
+}
+
+function parseYmd(ymd: string): Date {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toYmd(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+function addMonths(date: Date, months: number, day: number): Date {
+  const total = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(total / 12);
+  const month = ((total % 12) + 12) % 12;
+  return new Date(Date.UTC(year, month, Math.min(day, daysInMonth(year, month))));
+}
+
+// First occurrence strictly after `afterYmd`. Month days past the end of a month fall on its last day.
+export function nextOccurrence(r: Recurrence, afterYmd: string): string {
+  const after = parseYmd(afterYmd);
+  const interval = Math.max(1, r.interval);
+  switch (r.freq) {
+    case "DAILY":
+      return toYmd(new Date(after.getTime() + interval * DAY_MS));
+    case "WEEKLY": {
+      if (!r.byDay?.length) return toYmd(new Date(after.getTime() + 7 * interval * DAY_MS));
+      const weekday = (d: Date) => WEEKDAYS[(d.getUTCDay() + 6) % 7];
+      const weekStart = new Date(after.getTime() - ((after.getUTCDay() + 6) % 7) * DAY_MS);
+      for (let d = new Date(after.getTime() + DAY_MS); d.getTime() < weekStart.getTime() + 7 * DAY_MS; d = new Date(d.getTime() + DAY_MS)) {
+        if (r.byDay.includes(weekday(d))) return toYmd(d);
+      }
+      const nextWeek = new Date(weekStart.getTime() + 7 * interval * DAY_MS);
+      for (let i = 0; i < 7; i++) {
+        const d = new Date(nextWeek.getTime() + i * DAY_MS);
+        if (r.byDay.includes(weekday(d))) return toYmd(d);
+      }
+      return toYmd(nextWeek);
+    }
+    case "MONTHLY": {
+      const day = r.byMonthDay ?? after.getUTCDate();
+      const sameMonth = addMonths(after, 0, day);
+      if (r.byMonthDay && sameMonth.getTime() > after.getTime()) return toYmd(sameMonth);
+      return toYmd(addMonths(after, interval, day));
+    }
+    default:
+      return toYmd(addMonths(after, 12 * interval, after.getUTCDate()));
+  }
+}
+
+// The occurrence on `ymd` itself if it is one, else the next.
+export function occurrenceOnOrAfter(r: Recurrence, ymd: string): string {
+  return nextOccurrence(r, toYmd(new Date(parseYmd(ymd).getTime() - DAY_MS)));
+}
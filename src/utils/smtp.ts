@@ -0,0 +1,155 @@
+import crypto from "node:crypto";
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+// Minimal SMTP submission client for notification emails: implicit TLS (465) or STARTTLS, AUTH LOGIN,
+// a single text/plain UTF-8 message. No pooling, attachments or HTML.
+
+export type SmtpConfig = { host: string; port: number; secure: boolean; user?: string; pass?: string; timeoutMs?: number };
+export type SmtpMessage = { from: string; to: string[]; subject: string; text: string };
+
+type Reply = { code: number; lines: string[] };
+
+class SmtpConnection {
+  private buffer = "";
+  private pending: { resolve: (r: Reply) => void; reject: (e: Error) => void } | null = null;
+  private lines: string[] = [];
+  private ready: Reply[] = [];
+  private failure: Error | null = null;
+
+  constructor(public socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("error", (err) => this.fail(err));
+    socket.on("close", () => this.fail(new Error("smtp: connection closed")));
+  }
+
+  private fail(err: Error) {
+    this.failure = this.failure ?? err;
+    if (this.pending) {
+      this.pending.reject(err);
+      this.pending = null;
+    }
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let idx: number;
+    while ((idx = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, idx);
+      this.buffer = this.buffer.slice(idx + 2);
+      this.lines.push(line);
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines.map((l) => l.slice(4)) };
+        this.lines = [];
+        const p = this.pending;
+        this.pending = null;
+        if (p) p.resolve(reply);
+        else this.ready.push(reply);
+      }
+    }
+  }
+
+  read(): Promise<Reply> {
+    const queued = this.ready.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  // `label` names the step in errors (never the line itself: it may carry credentials or the message)
+  async command(line: string | null, expect: number[], label = line?.split(/[ :]/)[0] ?? "greeting"): Promise<Reply> {
+    const replyP = this.read();
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await replyP;
+    if (!expect.includes(reply.code)) {
+      throw new Error(`smtp: ${label} -> ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function buildMessage(msg: SmtpMessage, host: string): string {
+  const domain = msg.from.split("@")[1]?.replace(/>$/, "") || host;
+  const headers = [
+    `From: ${msg.from}`,
+    `To: ${msg.to.join(", ")}`,
+    `Subject: ${encodeHeader(msg.subject)}`,
+    `Date: ${new Date().toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = msg.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.`;
+}
+
+function connect(cfg: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = cfg.secure
+      ? tls.connect({ host: cfg.host, port: cfg.port, servername: cfg.host }, () => resolve(socket))
+      : net.connect({ host: cfg.host, port: cfg.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners("data");
+    socket.removeAllListeners("error");
+    socket.removeAllListeners("close");
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once("error", reject);
+  });
+}
+
+export async function sendSmtpMail(cfg: SmtpConfig, msg: SmtpMessage): Promise<{ accepted: string[]; response: string }> {
+  if (!msg.to.length) throw new Error("smtp: no recipients");
+  const socket = await connect(cfg);
+  socket.setTimeout(cfg.timeoutMs ?? 15_000, () => socket.destroy(new Error("smtp: timeout")));
+  const conn = new SmtpConnection(socket);
+  try {
+    await conn.command(null, [220]);
+    const client = os.hostname() || "localhost";
+    const ehlo = await conn.command(`EHLO ${client}`, [250]);
+    if (!cfg.secure && ehlo.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+      await conn.command("STARTTLS", [220]);
+      const secured = await upgrade(conn.socket, cfg.host);
+      secured.setTimeout(cfg.timeoutMs ?? 15_000, () => secured.destroy(new Error("smtp: timeout")));
+      conn.attach(secured);
+      await conn.command(`EHLO ${client}`, [250]);
+    }
+    if (cfg.user) {
+      await conn.command("AUTH LOGIN", [334]);
+      await conn.command(Buffer.from(cfg.user).toString("base64"), [334], "AUTH user");
+      await conn.command(Buffer.from(cfg.pass ?? "").toString("base64"), [235], "AUTH pass");
+    }
+    const bare = (addr: string) => addr.match(/<([^>]+)>/)?.[1] ?? addr.trim();
+    await conn.command(`MAIL FROM:<${bare(msg.from)}>`, [250]);
+    const accepted: string[] = [];
+    for (const to of msg.to) {
+      await conn.command(`RCPT TO:<${bare(to)}>`, [250, 251]);
+      accepted.push(bare(to));
+    }
+    await conn.command("DATA", [354]);
+    const done = await conn.command(buildMessage(msg, cfg.host), [250], "message");
+    await conn.command("QUIT", [221]).catch(() => undefined);
+    return { accepted, response: done.lines.join(" ") };
+  } finally {
+    conn.socket.destroy();
+  }
+}
@@ -5,9 +5,36 @@ function hasExplicitTimeHint(text: string): boolean {
   return TIME_TOKENS.test(text);
 }
 
-function formatDateLondon(date: Date): string {
+export function isValidTimeZone(tz: string | null | undefined): tz is string {
+  if (!tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The user's zone for date-only loops and calendar output (USER_TZ, then ORCH_TZ).
+export const userTimeZone = [process.env.USER_TZ, process.env.ORCH_TZ].find(isValidTimeZone) ?? "Europe/London";
+
+export function getTzOffsetMinutes(tz: string, date: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    timeZoneName: "shortOffset",
+    hour12: false,
+    hour: "2-digit",
+  }).formatToParts(date);
+  const tzName = parts.find((p) => p.type === "timeZoneName")?.value ?? "UTC";
+  const match = tzName.match(/([+-])(\d{1,2})(?::?(\d{2}))?/);
+  if (!match) return 0;
+  const sign = match[1] === "-" ? -1 : 1;
+  return sign * (Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0));
+}
+
+export function formatDateInTz(date: Date, tz: string = userTimeZone): string {
   const parts = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "Europe/London",
+    timeZone: tz,
     year: "numeric",
     month: "2-digit",
     day: "2-digit",
@@ -18,6 +45,18 @@ function formatDateLondon(date: Date): string {
   return `${y}-${m}-${d}`;
 }
 
+// A value without a time is already a calendar day and is kept as written: Date.parse reads "YYYY-MM-DD" as
+// UTC midnight (and other date-only strings as server-local midnight), so converting it to the user's zone
+// would move it a day for anyone on the other side of that midnight. Values with a time go through the zone.
+function toWhenDate(raw: string): string | null {
+  const parsed = Date.parse(raw);
+  if (Number.isNaN(parsed)) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return new Date(parsed).toISOString().slice(0, 10) === raw ? raw : null;
+  const dt = new Date(parsed);
+  if (/\d:\d{2}|T\d/.test(raw)) return formatDateInTz(dt);
+  return `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, "0")}-${String(dt.getDate()).padStart(2, "0")}`;
+}
+
 export function normalizeWhen(inputWhen?: string | null, inputWhenDate?: string | null, evidenceText?: string | null): { when: string | null; whenDate: string | null; hasTime: boolean } {
   const rawWhen = (inputWhen ?? "").trim();
   const rawWhenDate = (inputWhenDate ?? "").trim();
@@ -32,7 +71,7 @@ export function normalizeWhen(inputWhen?: string | null, inputWhenDate?: string
     const parsed = Date.parse(rawWhen || rawEvidence || text);
     if (!Number.isNaN(parsed)) {
       const dt = new Date(parsed);
-      const whenDate = formatDateLondon(dt);
+      const whenDate = formatDateInTz(dt);
       const isMidnight = dt.getUTCHours() === 0 && dt.getUTCMinutes() === 0;
       if (isMidnight && !TIME_TOKENS.test(rawWhen)) {
         return { when: null, whenDate, hasTime: false };
@@ -43,25 +82,16 @@ export function normalizeWhen(inputWhen?: string | null, inputWhenDate?: string
   }
 
   if (rawWhenDate) {
-    const parsed = Date.parse(rawWhenDate);
-    if (!Number.isNaN(parsed)) {
-      const dt = new Date(parsed);
-      return { when: null, whenDate: formatDateLondon(dt), hasTime: false };
-    }
+    const whenDate = toWhenDate(rawWhenDate);
+    if (whenDate) return { when: null, whenDate, hasTime: false };
   }
   if (DATE_ONLY_WORDS.test(text)) {
-    const parsed = Date.parse(text);
-    if (!Number.isNaN(parsed)) {
-      const dt = new Date(parsed);
-      return { when: null, whenDate: formatDateLondon(dt), hasTime: false };
-    }
+    const whenDate = toWhenDate(text);
+    if (whenDate) return { when: null, whenDate, hasTime: false };
   }
 
-  const parsed = Date.parse(rawWhen);
-  if (!Number.isNaN(parsed)) {
-    const dt = new Date(parsed);
-    return { when: null, whenDate: formatDateLondon(dt), hasTime: false };
-  }
+  const whenDate = toWhenDate(rawWhen);
+  if (whenDate) return { when: null, whenDate, hasTime: false };
 
   return { when: null, whenDate: null, hasTime: false };
 }
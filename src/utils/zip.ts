@@ -0,0 +1,53 @@
+import zlib from "node:zlib";
+
+// Minimal reader for the zip files WhatsApp's "Export chat" produces: walks the central directory and
+// inflates stored/deflated entries. No zip64, encryption or multi-disk support.
+
+export type ZipEntry = { name: string; data: Buffer };
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+
+export function isZip(buf: Buffer): boolean {
+  return buf.length >= 4 && buf.readUInt32LE(0) === LOCAL_SIG;
+}
+
+function findEndOfCentralDirectory(buf: Buffer): number {
+  // EOCD is 22 bytes plus an optional comment of up to 64KB
+  const min = Math.max(0, buf.length - 22 - 0xffff);
+  for (let i = buf.length - 22; i >= min; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIG) return i;
+  }
+  throw new Error("zip: end of central directory not found");
+}
+
+export function readZipEntries(buf: Buffer, filter: (name: string) => boolean = () => true): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(buf);
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (buf.readUInt32LE(offset) !== CENTRAL_SIG) throw new Error("zip: bad central directory entry");
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const nameLen = buf.readUInt16LE(offset + 28);
+    const extraLen = buf.readUInt16LE(offset + 30);
+    const commentLen = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLen);
+    offset += 46 + nameLen + extraLen + commentLen;
+
+    if (name.endsWith("/") || !filter(name)) continue;
+    if (buf.readUInt32LE(localOffset) !== LOCAL_SIG) throw new Error(`zip: bad local header for ${name}`);
+    const localNameLen = buf.readUInt16LE(localOffset + 26);
+    const localExtraLen = buf.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLen + localExtraLen;
+    const raw = buf.subarray(start, start + compressedSize);
+    if (method === 0) entries.push({ name, data: Buffer.from(raw) });
+    else if (method === 8) entries.push({ name, data: zlib.inflateRawSync(raw) });
+    else throw new Error(`zip: unsupported compression method ${method} for ${name}`);
+  }
+  return entries;
+}
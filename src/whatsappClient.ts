@@ -1,6 +1,7 @@
 import axios from "axios";
 import { config } from "./config.js";
 import { MessageRecord } from "./types.js";
+import { cassetteAxiosAdapter } from "./cassette.js";
 
 const SERVICE_A_TIMEOUT_MS = config.serviceATimeoutMs;
 const SERVICE_A_MAX_RETRIES = 2;
@@ -9,6 +10,8 @@ const SERVICE_A_BACKOFF_MS = [200, 600];
 const client = axios.create({
   baseURL: config.whatsappBase,
   timeout: SERVICE_A_TIMEOUT_MS,
+  // Record/replay when CASSETTE_MODE is set (see cassette.ts); the default adapter otherwise.
+  adapter: cassetteAxiosAdapter("serviceA"),
 });
 
 // All calls to Service A are protected, so set the default Authorization header once.
@@ -16,6 +19,7 @@ client.defaults.headers.common["Authorization"] = `Bearer ${config.whatsappApiKe
 
 const transientCodes = new Set(["ECONNABORTED", "ECONNRESET", "ECONNREFUSED", "ENETDOWN", "ENETUNREACH", "EAI_AGAIN", "ETIMEDOUT"]);
 export function isServiceATransientError(err: any): boolean {
+  if (err?.code === "CASSETTE_MISS") return false;
   const status = err?.response?.status;
   if (status && status < 500) return false;
   const code = err?.code;
@@ -26,6 +30,15 @@ export function isServiceATransientError(err: any): boolean {
   return status >= 500;
 }
 
+// Failures where the request may still have reached Service A: a timeout or dropped connection after it was
+// sent, or a gateway timeout. Refused or unresolved connections never got there.
+const unsentCodes = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "ENETDOWN", "ENETUNREACH", "CASSETTE_MISS"]);
+export function isServiceAOutcomeUnknown(err: any): boolean {
+  const status = err?.response?.status;
+  if (status) return status === 504;
+  return !unsentCodes.has(err?.code);
+}
+
 async function withServiceARetry<T>(fn: () => Promise<T>, attempt = 0): Promise<T> {
   try {
     return await fn();
@@ -210,3 +223,9 @@ export async function setBackfillTargets(targets: { chatId: string; targetMessag
     )
   );
 }
+
+// Sends a text message through Service A. Not retried: a timeout may still have delivered it.
+export async function sendWhatsAppMessage(chatId: string, text: string): Promise<{ id?: string; [key: string]: any }> {
+  const res = await client.post("/api/messages/send", { chatId, text }, { timeout: SERVICE_A_TIMEOUT_MS });
+  return (res.data ?? {}) as { id?: string };
+}